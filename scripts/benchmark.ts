@@ -0,0 +1,177 @@
+// Headless step-time benchmark: `npm run bench -- --density 4 --frames 20000`
+import { PerformanceObserver } from 'node:perf_hooks';
+import { RunSimulation, SIM_STEP_SEC, type InputSource, type RunSimulationConfig } from '../src/game/core/RunSimulation';
+import { DEFAULT_DATA_DIR, loadSimulationConfig } from './loadData';
+
+interface Options {
+  runs: number;
+  frames: number;
+  warmup: number;
+  seed: number;
+  density: number;
+  dataDir: string;
+}
+
+interface BenchResult {
+  stepMicros: Float64Array;
+  peakObstacles: number;
+  peakCoins: number;
+  checksum: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    runs: 5,
+    frames: 20000,
+    warmup: 1,
+    seed: 1,
+    density: 4,
+    dataDir: DEFAULT_DATA_DIR
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const value = argv[i + 1] ?? '';
+    switch (argv[i]) {
+      case '--runs': options.runs = Number(value); i += 1; break;
+      case '--frames': options.frames = Number(value); i += 1; break;
+      case '--warmup': options.warmup = Number(value); i += 1; break;
+      case '--seed': options.seed = Number(value); i += 1; break;
+      case '--density': options.density = Number(value); i += 1; break;
+      case '--data': options.dataDir = value; i += 1; break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (![options.runs, options.frames, options.density].every((value) => Number.isFinite(value) && value > 0)) {
+    throw new Error('--runs, --frames and --density must be positive numbers');
+  }
+  return options;
+}
+
+/** Spawn intervals divided by `density`: more entities on screen than real play, to show the per-step cost. */
+function denseConfig(config: RunSimulationConfig, density: number): RunSimulationConfig {
+  const scale = (range: { min: number; max: number }): { min: number; max: number } => ({
+    min: range.min / density,
+    max: range.max / density
+  });
+  return {
+    ...config,
+    economy: { ...config.economy, startCoins: 1e9 },
+    spawnDirector: {
+      ...config.spawnDirector,
+      stages: config.spawnDirector.stages.map((stage) => ({
+        ...stage,
+        obstacleIntervalSec: scale(stage.obstacleIntervalSec),
+        coinIntervalSec: scale(stage.coinIntervalSec)
+      }))
+    }
+  };
+}
+
+/**
+ * Scripted weaving and steady bribes. It reads no entity state, so every build sees the same inputs and the checksum
+ * changes only when the simulation's behaviour does.
+ */
+function scriptedInput(frames: number): InputSource {
+  let frame = 0;
+  return {
+    read: (dt) => {
+      frame += 1;
+      if (frame > frames) return null;
+      // Timed in seconds, so the same script plays at any step size.
+      const sway = Math.sin(frame * dt * 1.2);
+      const bribe = frame % Math.max(1, Math.round(0.18 / dt)) === 0;
+      return { dt, move: sway > 0.3 ? 1 : sway < -0.3 ? -1 : 0, dragX: null, bribe };
+    }
+  };
+}
+
+function runOnce(config: RunSimulationConfig, options: Options, seed: number): BenchResult {
+  const sim = new RunSimulation(config, {
+    seed,
+    upgrades: { defense: 3, farm: 3, skills: 4 },
+    input: scriptedInput(options.frames)
+  });
+  let events = 0;
+  sim.onEvent(() => {
+    events += 1;
+  });
+
+  // Preallocated so the benchmark's own bookkeeping does not show up in the gc numbers.
+  const stepMicros = new Float64Array(options.frames + 1);
+  let steps = 0;
+  let peakObstacles = 0;
+  let peakCoins = 0;
+  for (;;) {
+    const start = performance.now();
+    const running = sim.step(SIM_STEP_SEC);
+    stepMicros[steps] = (performance.now() - start) * 1000;
+    steps += 1;
+    if (!running) break;
+    peakObstacles = Math.max(peakObstacles, sim.obstacles.length);
+    peakCoins = Math.max(peakCoins, sim.coins.length);
+  }
+
+  return {
+    stepMicros: stepMicros.subarray(0, steps),
+    peakObstacles,
+    peakCoins,
+    checksum: `${events}:${sim.distance.toFixed(2)}:${sim.coinsBalance.toFixed(2)}:${sim.soulsCollected}`
+  };
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] as number;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const config = denseConfig(loadSimulationConfig(options.dataDir), options.density);
+
+  for (let i = 0; i < options.warmup; i += 1) {
+    runOnce(config, options, options.seed);
+  }
+
+  // Garbage collection pauses are what players feel as stutter, so they are reported next to the step times.
+  let gcCount = 0;
+  let gcMs = 0;
+  const gcObserver = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      gcCount += 1;
+      gcMs += entry.duration;
+    }
+  });
+  gcObserver.observe({ entryTypes: ['gc'] });
+
+  const results: BenchResult[] = [];
+  const heapBefore = process.memoryUsage().heapUsed;
+  const started = performance.now();
+  for (let i = 0; i < options.runs; i += 1) {
+    results.push(runOnce(config, options, (options.seed + i) >>> 0));
+  }
+  const totalMs = performance.now() - started;
+  const heapAfter = process.memoryUsage().heapUsed;
+  // Entries are delivered asynchronously; the report waits for the last ones.
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  gcObserver.disconnect();
+
+  const steps = new Float64Array(results.reduce((sum, result) => sum + result.stepMicros.length, 0));
+  results.reduce((offset, result) => {
+    steps.set(result.stepMicros, offset);
+    return offset + result.stepMicros.length;
+  }, 0);
+  steps.sort();
+  const mean = steps.reduce((acc, value) => acc + value, 0) / Math.max(1, steps.length);
+
+  console.log(`runs=${options.runs} frames=${options.frames} density=${options.density} seed=${options.seed}`);
+  console.log(`steps/sec          ${((steps.length / totalMs) * 1000).toFixed(0)}`);
+  console.log(`step µs    mean ${mean.toFixed(1)}  p50 ${percentile(steps, 0.5).toFixed(1)}  p99 ${percentile(steps, 0.99).toFixed(1)}  max ${percentile(steps, 1).toFixed(1)}`);
+  console.log(`gc                 ${gcCount} pauses, ${gcMs.toFixed(1)} ms total; heap ${((heapAfter - heapBefore) / 1048576).toFixed(1)} MB net`);
+  console.log(`peak on screen     obstacles ${Math.max(...results.map((result) => result.peakObstacles))}, coins ${Math.max(...results.map((result) => result.peakCoins))}`);
+  console.log('checksums (events:distance:balance:souls), equal across builds unless behaviour changed:');
+  results.forEach((result, i) => console.log(`  seed ${(options.seed + i) >>> 0}  ${result.checksum}`));
+}
+
+void main();
@@ -0,0 +1,25 @@
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type {
+  BossConfig, EconomyConfig, GateConfig, ObstacleConfig, SpawnDirectorConfig, UpgradeBranchConfig
+} from '../src/game/types/config';
+import type { RunSimulationConfig } from '../src/game/core/RunSimulation';
+
+export const DEFAULT_DATA_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '../src/game/data');
+
+export function readJson<T>(dataDir: string, fileName: string): T {
+  return JSON.parse(readFileSync(resolve(dataDir, fileName), 'utf8')) as T;
+}
+
+/** Node-side counterpart of `GameConfig.load` for headless tooling: reads the gameplay JSON straight from disk. */
+export function loadSimulationConfig(dataDir = DEFAULT_DATA_DIR): RunSimulationConfig {
+  return {
+    economy: readJson<EconomyConfig>(dataDir, 'economy_config.json'),
+    gates: readJson<GateConfig[]>(dataDir, 'gates.json'),
+    obstacles: readJson<ObstacleConfig[]>(dataDir, 'obstacles.json'),
+    spawnDirector: readJson<SpawnDirectorConfig>(dataDir, 'spawn_director.json'),
+    bosses: readJson<BossConfig[]>(dataDir, 'bosses.json'),
+    upgrades: readJson<UpgradeBranchConfig[]>(dataDir, 'upgrades.json')
+  };
+}
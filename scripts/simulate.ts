@@ -0,0 +1,164 @@
+// Headless balance runs: `npm run simulate -- --runs 2000 --upgrades defense=2,farm=1`
+import { RunSimulation, SIM_STEP_SEC, type InputFrame, type InputSource, type RunSimulationConfig } from '../src/game/core/RunSimulation';
+import { DEFAULT_DATA_DIR, loadSimulationConfig } from './loadData';
+
+interface Options {
+  runs: number;
+  seed: number;
+  dt: number;
+  maxSec: number;
+  policy: 'autopilot' | 'idle';
+  upgrades: Record<string, number>;
+  dataDir: string;
+}
+
+interface RunResult {
+  score: number;
+  earnings: number;
+  elapsedSec: number;
+  timedOut: boolean;
+  counts: Record<string, number>;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    runs: 1000,
+    seed: 1,
+    dt: SIM_STEP_SEC,
+    maxSec: 900,
+    policy: 'autopilot',
+    upgrades: {},
+    dataDir: DEFAULT_DATA_DIR
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const value = argv[i + 1] ?? '';
+    switch (argv[i]) {
+      case '--runs': options.runs = Number(value); i += 1; break;
+      case '--seed': options.seed = Number(value); i += 1; break;
+      case '--fps': options.dt = 1 / Number(value); i += 1; break;
+      case '--max-sec': options.maxSec = Number(value); i += 1; break;
+      case '--policy': options.policy = value === 'idle' ? 'idle' : 'autopilot'; i += 1; break;
+      case '--data': options.dataDir = value; i += 1; break;
+      case '--upgrades':
+        for (const pair of value.split(',').filter(Boolean)) {
+          const [branch, level] = pair.split('=');
+          if (branch) {
+            options.upgrades[branch] = Number(level ?? 0);
+          }
+        }
+        i += 1;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (!Number.isFinite(options.runs) || options.runs <= 0 || !Number.isFinite(options.dt) || options.dt <= 0) {
+    throw new Error('--runs and --fps must be positive numbers');
+  }
+  return options;
+}
+
+/** Crude player stand-in: dodges what is directly ahead, otherwise chases the nearest coin. */
+class Autopilot implements InputSource {
+  read(dt: number, sim: RunSimulation): InputFrame {
+    const { player } = sim;
+    // Entities are stored unordered; the earliest spawned threat is the one it always reacted to.
+    const threat = sim.obstacles
+      .filter((obstacle) => obstacle.y < player.y
+        && player.y - obstacle.y < 170
+        && Math.abs(obstacle.x - player.x) < obstacle.r + player.w * 0.6)
+      .sort((a, b) => a.seq - b.seq)[0];
+
+    let targetX = player.x;
+    if (threat) {
+      targetX = threat.x < player.x ? threat.x + threat.r + player.w : threat.x - threat.r - player.w;
+    } else {
+      const coin = sim.coins
+        .filter((item) => item.y < player.y && player.y - item.y < 260)
+        .sort((a, b) => Math.abs(a.x - player.x) - Math.abs(b.x - player.x))[0];
+      if (coin) {
+        targetX = coin.x;
+      }
+    }
+
+    const delta = targetX - player.x;
+    const bribe = Boolean(threat)
+      && sim.bribeCooldownLeftSec <= 0
+      && (sim.freeBribeReady || sim.coinsBalance > 15);
+
+    return { dt, move: Math.abs(delta) < 6 ? 0 : delta < 0 ? -1 : 1, dragX: null, bribe };
+  }
+}
+
+const idle: InputSource = { read: (dt) => ({ dt, move: 0, dragX: null, bribe: false }) };
+
+function runOnce(config: RunSimulationConfig, options: Options, seed: number): RunResult {
+  const input = options.policy === 'idle' ? idle : new Autopilot();
+  const sim = new RunSimulation(config, { seed, upgrades: options.upgrades, input });
+  const counts: Record<string, number> = {};
+  sim.onEvent((event) => {
+    counts[event.type] = (counts[event.type] ?? 0) + 1;
+    if (event.type === 'gate_chosen') {
+      counts[`gate:${event.gate.id}`] = (counts[`gate:${event.gate.id}`] ?? 0) + 1;
+    }
+    if (event.type === 'game_over') {
+      counts[`lost_to:${event.cause}`] = (counts[`lost_to:${event.cause}`] ?? 0) + 1;
+    }
+  });
+
+  while (!sim.over && sim.elapsedSec < options.maxSec) {
+    sim.step(options.dt);
+  }
+
+  return {
+    score: Math.floor(sim.distance),
+    earnings: sim.earnings(),
+    elapsedSec: sim.elapsedSec,
+    timedOut: !sim.over,
+    counts
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] as number;
+}
+
+function describe(label: string, values: number[]): string {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((acc, value) => acc + value, 0) / Math.max(1, sorted.length);
+  const cells = [mean, percentile(sorted, 0.1), percentile(sorted, 0.5), percentile(sorted, 0.9)]
+    .map((value) => value.toFixed(1).padStart(10));
+  return `${label.padEnd(16)}${cells.join('')}`;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const config = loadSimulationConfig(options.dataDir);
+  const results: RunResult[] = [];
+  for (let i = 0; i < options.runs; i += 1) {
+    results.push(runOnce(config, options, (options.seed + i) >>> 0));
+  }
+
+  const eventTotals: Record<string, number> = {};
+  for (const result of results) {
+    for (const [key, value] of Object.entries(result.counts)) {
+      eventTotals[key] = (eventTotals[key] ?? 0) + value;
+    }
+  }
+
+  console.log(`runs=${options.runs} policy=${options.policy} seed=${options.seed} dt=${options.dt.toFixed(4)} upgrades=${JSON.stringify(options.upgrades)}`);
+  console.log(`${''.padEnd(16)}${['mean', 'p10', 'p50', 'p90'].map((cell) => cell.padStart(10)).join('')}`);
+  console.log(describe('survival sec', results.map((result) => result.elapsedSec)));
+  console.log(describe('score', results.map((result) => result.score)));
+  console.log(describe('earnings', results.map((result) => result.earnings)));
+  console.log(`timed out: ${results.filter((result) => result.timedOut).length}`);
+  console.log('events per run:');
+  for (const key of Object.keys(eventTotals).sort()) {
+    console.log(`  ${key.padEnd(22)}${((eventTotals[key] ?? 0) / results.length).toFixed(2)}`);
+  }
+}
+
+main();
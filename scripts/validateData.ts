@@ -0,0 +1,74 @@
+// Dev-time data check: `npm run validate-data [-- --data ./other/data/dir] [-- --public ./other/public/dir]`
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  CONFIG_FILES,
+  formatConfigIssues,
+  localeFileName,
+  validateConfigFiles,
+  validateLocaleFile,
+  type ConfigIssue,
+  type RawConfigFiles
+} from '../src/game/core/ConfigValidation';
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from '../src/game/core/Localization';
+import type { AssetManifest } from '../src/game/types/config';
+import { DEFAULT_DATA_DIR, readJson } from './loadData';
+
+const DEFAULT_PUBLIC_DIR = resolve(DEFAULT_DATA_DIR, '../../../public');
+
+/**
+ * Sprite images are URLs relative to the page, served from `public/`. The game falls back to vector shapes when one is
+ * missing, so without this check a typo would go unnoticed. Absolute URLs are left alone.
+ */
+function missingImages(manifest: AssetManifest, publicDir: string): ConfigIssue[] {
+  const sources: Array<[string, string]> = [
+    ...Object.entries(manifest.images).map(([id, src]): [string, string] => [`$.images.${id}`, src]),
+    ...Object.entries(manifest.atlases).map(([id, atlas]): [string, string] => [`$.atlases.${id}.src`, atlas.src])
+  ];
+  return sources
+    .filter(([, src]) => !/^[a-z]+:/i.test(src) && !existsSync(resolve(publicDir, src)))
+    .map(([path, src]) => ({ file: CONFIG_FILES.assets, path, reason: `image "${src}" not found in ${publicDir}` }));
+}
+
+function main(): void {
+  const dataFlag = process.argv.indexOf('--data');
+  const dataDir = dataFlag >= 0 ? (process.argv[dataFlag + 1] ?? DEFAULT_DATA_DIR) : DEFAULT_DATA_DIR;
+  const publicFlag = process.argv.indexOf('--public');
+  const publicDir = publicFlag >= 0 ? (process.argv[publicFlag + 1] ?? DEFAULT_PUBLIC_DIR) : DEFAULT_PUBLIC_DIR;
+
+  const issues: ConfigIssue[] = [];
+  const files: Partial<RawConfigFiles> = {};
+  for (const [key, fileName] of Object.entries(CONFIG_FILES) as Array<[keyof RawConfigFiles, string]>) {
+    try {
+      files[key] = readJson<unknown>(dataDir, fileName);
+    } catch (error) {
+      issues.push({ file: fileName, path: '$', reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (issues.length === 0) {
+    issues.push(...validateConfigFiles(files as RawConfigFiles));
+  }
+  if (issues.length === 0) {
+    issues.push(...missingImages(files.assets as AssetManifest, publicDir));
+  }
+
+  const locales = SUPPORTED_LANGUAGES.filter((language) => language !== DEFAULT_LANGUAGE).map(localeFileName);
+  for (const fileName of locales) {
+    try {
+      issues.push(...validateLocaleFile(fileName, readJson<unknown>(dataDir, fileName)));
+    } catch (error) {
+      issues.push({ file: fileName, path: '$', reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (issues.length > 0) {
+    console.error(formatConfigIssues(issues));
+    console.error(`\n${issues.length} issue(s) in ${dataDir}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`All ${Object.keys(CONFIG_FILES).length + locales.length} data files in ${dataDir} are valid.`);
+}
+
+main();
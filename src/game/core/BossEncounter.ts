@@ -0,0 +1,263 @@
+import type { BossAttackConfig, BossConfig, BossHeadConfig } from '../types/config';
+import type { Rng } from './Random';
+import { fillSegment } from './SpawnDirector';
+
+// Pure like the simulation that owns it: the boss, its heads and its shots, no rendering.
+
+export interface BossHead {
+  config: BossHeadConfig;
+  x: number;
+  y: number;
+  r: number;
+  hp: number;
+  maxHp: number;
+}
+
+export interface BossShot {
+  x: number;
+  y: number;
+  /** Position at the start of the last step, for render interpolation. */
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  r: number;
+  damage: number;
+}
+
+/** An attack being announced. The view draws it from these fields; they are fixed when the telegraph starts. */
+export interface BossTelegraph {
+  attack: BossAttackConfig;
+  head: BossHead;
+  remainingSec: number;
+  /** Where `aimed` shots go. */
+  aimX: number;
+  aimY: number;
+  /** Middle of the `sweep` gap. */
+  gapX: number;
+}
+
+export type BossPhase = 'entering' | 'fighting' | 'leaving';
+
+/** Above the screen: where the boss comes from and goes back to. */
+const OFFSCREEN_Y = -120;
+const TRAVEL_SPEED = 140;
+/** Shots start just below the head that fires them. */
+const MUZZLE_OFFSET = 10;
+const SHOT_CULL_MARGIN = 40;
+
+interface Burst {
+  telegraph: BossTelegraph;
+  shotsLeft: number;
+  timerSec: number;
+}
+
+/**
+ * One appearance of a boss: it comes down, attacks until every head is paid off or its time runs out, then leaves.
+ * The simulation handles collisions and rewards; this class only moves things and tracks head hp.
+ */
+export class BossEncounter {
+  phase: BossPhase = 'entering';
+  y = OFFSCREEN_Y;
+  /** `y` at the start of the last step; heads share it. */
+  prevY = OFFSCREEN_Y;
+  readonly heads: BossHead[];
+  shots: BossShot[] = [];
+  telegraph: BossTelegraph | null = null;
+  timeLeftSec: number;
+  defeated = false;
+  private burst: Burst | null = null;
+  private attackTimerSec: number;
+
+  constructor(
+    readonly config: BossConfig,
+    encounter: number,
+    private readonly rng: Rng,
+    private readonly worldWidth: number,
+    private readonly worldHeight: number
+  ) {
+    const bonus = encounter * (config.hpBonusPerEncounter ?? 0);
+    this.heads = config.heads.map((head) => ({
+      config: head,
+      x: worldWidth / 2 + head.offsetX,
+      y: this.y,
+      r: head.radius,
+      hp: head.hp + bonus,
+      maxHp: head.hp + bonus
+    }));
+    this.timeLeftSec = config.timeLimitSec ?? Infinity;
+    this.attackTimerSec = rng.range(config.attackIntervalSec.min, config.attackIntervalSec.max);
+  }
+
+  get hp(): number {
+    return this.heads.reduce((sum, head) => sum + head.hp, 0);
+  }
+
+  get maxHp(): number {
+    return this.heads.reduce((sum, head) => sum + head.maxHp, 0);
+  }
+
+  /** True once it has left the screen again. */
+  get finished(): boolean {
+    return this.phase === 'leaving' && this.y <= OFFSCREEN_Y;
+  }
+
+  snapshotPositions(): void {
+    this.prevY = this.y;
+    for (const shot of this.shots) {
+      shot.prevX = shot.x;
+      shot.prevY = shot.y;
+    }
+  }
+
+  /** Advances movement and attacks. Returns true on the step the time limit ran out. */
+  update(dt: number, target: { x: number; y: number }): boolean {
+    this.shots.forEach((shot) => {
+      shot.x += shot.vx * dt;
+      shot.y += shot.vy * dt;
+    });
+    this.shots = this.shots.filter((shot) => shot.y < this.worldHeight + SHOT_CULL_MARGIN
+      && shot.y > OFFSCREEN_Y
+      && shot.x > -SHOT_CULL_MARGIN
+      && shot.x < this.worldWidth + SHOT_CULL_MARGIN);
+
+    let timedOut = false;
+    if (this.phase === 'entering') {
+      this.y = Math.min(this.config.y, this.y + TRAVEL_SPEED * dt);
+      if (this.y >= this.config.y) {
+        this.phase = 'fighting';
+      }
+    } else if (this.phase === 'leaving') {
+      this.y = Math.max(OFFSCREEN_Y, this.y - TRAVEL_SPEED * dt);
+    } else {
+      this.timeLeftSec -= dt;
+      if (this.timeLeftSec <= 0) {
+        this.leave();
+        timedOut = true;
+      } else {
+        this.updateAttacks(dt, target);
+      }
+    }
+
+    this.heads.forEach((head) => (head.y = this.y));
+    return timedOut;
+  }
+
+  /** Applies a bribe to the first unpaid head it touches. Returns that head, or null when it missed them all. */
+  hitHead(projectile: { x: number; y: number; r: number }): BossHead | null {
+    if (this.phase !== 'fighting') {
+      return null;
+    }
+    const head = this.heads.find((item) => item.hp > 0 && touches(item, projectile));
+    if (!head) {
+      return null;
+    }
+    head.hp -= 1;
+    if (this.hp === 0) {
+      this.defeated = true;
+      // Paid in full: nothing already in the air should still cost the player.
+      this.shots = [];
+      this.leave();
+    }
+    return head;
+  }
+
+  private leave(): void {
+    this.phase = 'leaving';
+    this.telegraph = null;
+    this.burst = null;
+  }
+
+  private updateAttacks(dt: number, target: { x: number; y: number }): void {
+    if (this.burst) {
+      this.burst.timerSec -= dt;
+      if (this.burst.timerSec <= 0) {
+        this.fire(this.burst.telegraph);
+        this.burst.shotsLeft -= 1;
+        const attack = this.burst.telegraph.attack;
+        this.burst.timerSec = attack.type === 'aimed' ? attack.intervalSec : 0;
+        if (this.burst.shotsLeft <= 0) {
+          this.burst = null;
+        }
+      }
+      return;
+    }
+
+    if (this.telegraph) {
+      this.telegraph.remainingSec -= dt;
+      if (this.telegraph.remainingSec <= 0) {
+        const telegraph = this.telegraph;
+        this.telegraph = null;
+        this.burst = { telegraph, shotsLeft: telegraph.attack.type === 'aimed' ? telegraph.attack.count : 1, timerSec: 0 };
+      }
+      return;
+    }
+
+    this.attackTimerSec -= dt;
+    if (this.attackTimerSec > 0) {
+      return;
+    }
+    this.attackTimerSec = this.rng.range(this.config.attackIntervalSec.min, this.config.attackIntervalSec.max);
+
+    // Paid heads fall silent.
+    const head = this.rng.pick(this.heads.filter((item) => item.hp > 0));
+    const attack = this.rng.weighted(this.config.attacks, (item) => item.weight ?? 1);
+    if (!head || !attack) {
+      return;
+    }
+    const gapWidth = attack.type === 'sweep' ? attack.gapWidth : 0;
+    this.telegraph = {
+      attack,
+      head,
+      remainingSec: attack.telegraphSec,
+      aimX: target.x,
+      aimY: target.y,
+      gapX: this.rng.range(gapWidth / 2, this.worldWidth - gapWidth / 2)
+    };
+  }
+
+  private fire(telegraph: BossTelegraph): void {
+    const { attack, head } = telegraph;
+    const originY = head.y + head.r + MUZZLE_OFFSET;
+    const shot = (x: number, y: number, angle: number): BossShot => ({
+      x,
+      y,
+      prevX: x,
+      prevY: y,
+      vx: Math.cos(angle) * attack.speed,
+      vy: Math.sin(angle) * attack.speed,
+      r: attack.radius,
+      damage: attack.damage
+    });
+
+    switch (attack.type) {
+      case 'volley': {
+        const spread = (attack.spreadDeg * Math.PI) / 180;
+        for (let i = 0; i < attack.count; i += 1) {
+          const t = attack.count === 1 ? 0.5 : i / (attack.count - 1);
+          this.shots.push(shot(head.x, originY, Math.PI / 2 - spread / 2 + t * spread));
+        }
+        break;
+      }
+      case 'aimed':
+        this.shots.push(shot(head.x, originY, Math.atan2(telegraph.aimY - originY, telegraph.aimX - head.x)));
+        break;
+      case 'sweep': {
+        const half = attack.gapWidth / 2;
+        const xs = [
+          ...fillSegment(0, telegraph.gapX - half, attack.radius),
+          ...fillSegment(telegraph.gapX + half, this.worldWidth, attack.radius)
+        ];
+        xs.forEach((x) => this.shots.push(shot(x, originY, Math.PI / 2)));
+        break;
+      }
+    }
+  }
+}
+
+function touches(a: { x: number; y: number; r: number }, b: { x: number; y: number; r: number }): boolean {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const radius = a.r + b.r;
+  return dx * dx + dy * dy <= radius * radius;
+}
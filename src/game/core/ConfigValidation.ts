@@ -0,0 +1,1035 @@
+import { MUSIC_TRACK_NAMES, SFX_NAMES, SYNTH_WAVES } from '../services/AudioCues';
+import { PROGRESS_COUNTERS, QUALIFIED_COUNTERS, type CounterSource, type ProgressCounter } from '../services/ProgressCounters';
+import type {
+  BossAttackConfig,
+  BossConfig,
+  GateConfig,
+  GateEffect,
+  GateMultipliers,
+  GatePolarity,
+  ObstacleBehavior,
+  ObstacleConfig,
+  ObstacleMovement,
+  ShopOfferGrant,
+  ShopOfferKind,
+  SpawnDirectorConfig,
+  SpawnPatternConfig,
+  SpawnStageConfig
+} from '../types/config';
+import { UI_TEXT_KEY_KINDS, type Language } from './Localization';
+import { DEFAULT_FIRST_GATE_DELAY_SEC, WORLD_HEIGHT, WORLD_WIDTH } from './RunSimulation';
+import { UPGRADE_STAT_KEYS } from './UpgradeStats';
+
+export interface ConfigIssue {
+  file: string;
+  /** JSON path inside the file, `$` being the root, e.g. `$[2].effects.speedMultiplier`. */
+  path: string;
+  reason: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(`Invalid game data:\n${formatConfigIssues(issues)}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export const CONFIG_FILES = {
+  uiText: 'ui_text_ru.json',
+  economy: 'economy_config.json',
+  gates: 'gates.json',
+  obstacles: 'obstacles.json',
+  spawnDirector: 'spawn_director.json',
+  bosses: 'bosses.json',
+  upgrades: 'upgrades.json',
+  dailyContracts: 'daily_contracts.json',
+  audio: 'audio.json',
+  shopOffers: 'shop_offers.json',
+  achievements: 'achievements.json',
+  assets: 'assets.json'
+} as const;
+
+export type RawConfigFiles = Record<keyof typeof CONFIG_FILES, unknown>;
+
+/** Russian texts are part of `CONFIG_FILES`; other locales are fetched on demand under this name. */
+export function localeFileName(language: Language): string {
+  return `ui_text_${language}.json`;
+}
+
+const GATE_KEYS: Array<keyof GateConfig> = [
+  'id', 'name', 'description', 'durationSec', 'permanent', 'effects', 'weight', 'minElapsedSec', 'maxStacks', 'polarity', 'toast',
+  'sprite'
+];
+const GATE_MULTIPLIER_KEYS: Array<keyof GateMultipliers> = [
+  'collisionPenaltyMultiplier', 'pickupMultiplier', 'speedMultiplier', 'drainMultiplier', 'magnetMultiplier', 'bribeCostMultiplier'
+];
+const GATE_EFFECT_KEYS: Array<keyof GateEffect> = [...GATE_MULTIPLIER_KEYS, 'obols', 'shields', 'mirrorControls', 'fog'];
+const GATE_POLARITIES: GatePolarity[] = ['good', 'bad', 'mixed'];
+const STAT_MODIFIER_KEYS = ['add', 'mul'];
+
+const OBSTACLE_KEYS: Array<keyof ObstacleConfig> = ['id', 'radius', 'damage', 'color', 'spawnWeight', 'behavior', 'sprite'];
+const OBSTACLE_BEHAVIOR_KEYS: Array<keyof ObstacleBehavior> = ['movement', 'hp', 'split'];
+/** Parameters each movement type takes besides `type`; the optional ones are listed in `validateMovement`. */
+const OBSTACLE_MOVEMENT_KEYS: Record<ObstacleMovement['type'], string[]> = {
+  sine: ['amplitude', 'frequency'],
+  homing: ['speed', 'range'],
+  diagonal: ['speed']
+};
+
+const SPAWN_DIRECTOR_KEYS: Array<keyof SpawnDirectorConfig> = [
+  'progress', 'laneWidth', 'rowDepth', 'gateClearance', 'stages', 'patterns'
+];
+const SPAWN_STAGE_KEYS: Array<keyof SpawnStageConfig> = [
+  'from', 'obstacleIntervalSec', 'coinIntervalSec', 'obstacleWeights', 'patternChance', 'patterns'
+];
+const SPAWN_PATTERN_KEYS: Record<SpawnPatternConfig['type'], string[]> = {
+  coin_line: ['count', 'spacing', 'slope'],
+  wall: ['obstacle', 'gapWidth'],
+  slalom: ['obstacle', 'rows', 'rowSpacing', 'gapWidth']
+};
+
+const BOSS_KEYS: Array<keyof BossConfig> = [
+  'id', 'name', 'rewardDescription', 'color', 'triggerDistances', 'repeatEvery', 'scrollMultiplier', 'y', 'timeLimitSec',
+  'heads', 'hpBonusPerEncounter', 'attackIntervalSec', 'attacks', 'reward'
+];
+const BOSS_ATTACK_COMMON_KEYS = ['type', 'weight', 'telegraphSec', 'radius', 'speed', 'damage'];
+const BOSS_ATTACK_KEYS: Record<BossAttackConfig['type'], string[]> = {
+  volley: ['count', 'spreadDeg'],
+  aimed: ['count', 'intervalSec'],
+  sweep: ['gapWidth']
+};
+
+const SHOP_OFFER_KINDS: ShopOfferKind[] = ['consumable', 'once', 'permanent'];
+const SHOP_GRANT_KEYS: Array<keyof ShopOfferGrant> = ['obols', 'upgrades', 'noInterstitials'];
+
+const PLURAL_CATEGORIES: Intl.LDMLPluralRule[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+type JsonObject = Record<string, unknown>;
+
+interface NumberRule {
+  optional?: boolean;
+  min?: number;
+  max?: number;
+  /** Strictly greater than `min`. */
+  exclusiveMin?: boolean;
+  integer?: boolean;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/** Collects issues for one file; every check reports and carries on so a single pass lists everything. */
+class FileChecker {
+  constructor(private readonly file: string, private readonly issues: ConfigIssue[]) {}
+
+  report(path: string, reason: string): void {
+    this.issues.push({ file: this.file, path, reason });
+  }
+
+  object(value: unknown, path: string): value is JsonObject {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return true;
+    }
+    this.report(path, `expected object, got ${describeType(value)}`);
+    return false;
+  }
+
+  array(value: unknown, path: string, minLength = 0): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.report(path, `expected array, got ${describeType(value)}`);
+      return false;
+    }
+    if (value.length < minLength) {
+      this.report(path, `expected at least ${minLength} entr${minLength === 1 ? 'y' : 'ies'}, got ${value.length}`);
+    }
+    return true;
+  }
+
+  string(obj: JsonObject, key: string, path: string, optional = false): string | undefined {
+    const value = obj[key];
+    if (value === undefined && optional) {
+      return undefined;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.report(`${path}.${key}`, `expected non-empty string, got ${describeType(value)}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  number(obj: JsonObject, key: string, path: string, rule: NumberRule = {}): number | undefined {
+    const value = obj[key];
+    const fieldPath = `${path}.${key}`;
+    if (value === undefined && rule.optional) {
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(fieldPath, `expected number, got ${describeType(value)}`);
+      return undefined;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      this.report(fieldPath, `expected integer, got ${value}`);
+    }
+    if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) {
+      this.report(fieldPath, `must be ${rule.exclusiveMin ? '>' : '>='} ${rule.min}, got ${value}`);
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      this.report(fieldPath, `must be <= ${rule.max}, got ${value}`);
+    }
+    return value;
+  }
+
+  boolean(obj: JsonObject, key: string, path: string): void {
+    const value = obj[key];
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.report(`${path}.${key}`, `expected boolean, got ${describeType(value)}`);
+    }
+  }
+
+  knownKeys(obj: JsonObject, allowed: readonly string[], path: string): void {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) {
+        this.report(`${path}.${key}`, `unknown key, expected one of ${allowed.join(', ')}`);
+      }
+    }
+  }
+
+  uniqueIds(items: unknown[], path: string): string[] {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (typeof item !== 'object' || item === null) return;
+      const id = (item as JsonObject).id;
+      if (typeof id !== 'string') return;
+      if (seen.has(id)) {
+        this.report(`${path}[${index}].id`, `duplicate id "${id}"`);
+      }
+      seen.add(id);
+    });
+    return [...seen];
+  }
+}
+
+function validatePlural(value: unknown, path: string, check: FileChecker): void {
+  if (!check.object(value, path)) return;
+  check.knownKeys(value, PLURAL_CATEGORIES, path);
+  for (const category of PLURAL_CATEGORIES) {
+    check.string(value, category, path, category !== 'other');
+  }
+}
+
+function validateLocaleContent(content: unknown, check: FileChecker): void {
+  if (!check.object(content, '$.content')) return;
+  check.knownKeys(content, ['gates', 'upgrades', 'contracts', 'offers', 'achievements', 'bosses'], '$.content');
+
+  const { gates, upgrades, contracts, offers, achievements, bosses } = content;
+  if (gates !== undefined && check.object(gates, '$.content.gates')) {
+    for (const [id, gate] of Object.entries(gates)) {
+      const path = `$.content.gates.${id}`;
+      if (!check.object(gate, path)) continue;
+      check.knownKeys(gate, ['name', 'description', 'label'], path);
+      check.string(gate, 'name', path, true);
+      check.string(gate, 'description', path, true);
+      check.string(gate, 'label', path, true);
+    }
+  }
+  if (upgrades !== undefined && check.object(upgrades, '$.content.upgrades')) {
+    for (const [id, branch] of Object.entries(upgrades)) {
+      const path = `$.content.upgrades.${id}`;
+      if (!check.object(branch, path)) continue;
+      check.string(branch, 'title', path, true);
+      if (branch.levels === undefined || !check.array(branch.levels, `${path}.levels`)) continue;
+      branch.levels.forEach((level, index) => {
+        const levelPath = `${path}.levels[${index}]`;
+        if (!check.object(level, levelPath)) return;
+        check.string(level, 'title', levelPath, true);
+        check.string(level, 'shortDesc', levelPath, true);
+      });
+    }
+  }
+  if (contracts !== undefined && check.object(contracts, '$.content.contracts')) {
+    for (const id of Object.keys(contracts)) {
+      check.string(contracts, id, '$.content.contracts');
+    }
+  }
+  for (const [section, entries] of Object.entries({ offers, achievements })) {
+    if (entries === undefined || !check.object(entries, `$.content.${section}`)) continue;
+    for (const [id, entry] of Object.entries(entries)) {
+      const path = `$.content.${section}.${id}`;
+      if (!check.object(entry, path)) continue;
+      check.knownKeys(entry, ['title', 'description'], path);
+      check.string(entry, 'title', path, true);
+      check.string(entry, 'description', path, true);
+    }
+  }
+  if (bosses !== undefined && check.object(bosses, '$.content.bosses')) {
+    for (const [id, boss] of Object.entries(bosses)) {
+      const path = `$.content.bosses.${id}`;
+      if (!check.object(boss, path)) continue;
+      check.knownKeys(boss, ['name', 'rewardDescription'], path);
+      check.string(boss, 'name', path, true);
+      check.string(boss, 'rewardDescription', path, true);
+    }
+  }
+}
+
+/**
+ * Checks one `ui_text_<lang>.json`. The reference locale must define every key; other locales may
+ * leave keys out (they fall back to Russian) but must not define keys the game does not know.
+ */
+function validateLocaleText(value: unknown, check: FileChecker, reference: boolean): void {
+  if (!check.object(value, '$')) return;
+
+  for (const [key, kind] of Object.entries(UI_TEXT_KEY_KINDS)) {
+    if (value[key] === undefined && !reference) continue;
+    if (kind === 'plural') {
+      validatePlural(value[key], `$.${key}`, check);
+    } else {
+      check.string(value, key, '$');
+    }
+  }
+  if (!reference) {
+    for (const key of Object.keys(value)) {
+      if (!(key in UI_TEXT_KEY_KINDS) && key !== 'ui_text' && key !== 'content') {
+        check.report(`$.${key}`, `unknown key, not defined in ${CONFIG_FILES.uiText}`);
+      }
+    }
+  }
+
+  if (value.content !== undefined) {
+    validateLocaleContent(value.content, check);
+  }
+
+  const toasts = (value.ui_text as JsonObject | undefined)?.toasts;
+  if (toasts === undefined) return;
+  if (!check.object(toasts, '$.ui_text.toasts')) return;
+  for (const [key, lines] of Object.entries(toasts)) {
+    const path = `$.ui_text.toasts.${key}`;
+    if (check.array(lines, path, 1)) {
+      lines.forEach((line, index) => {
+        if (typeof line !== 'string') check.report(`${path}[${index}]`, `expected string, got ${describeType(line)}`);
+      });
+    }
+  }
+}
+
+function validateEconomy(value: unknown, check: FileChecker): void {
+  if (!check.object(value, '$')) return;
+
+  check.number(value, 'startCoins', '$', { min: 0, exclusiveMin: true });
+  check.number(value, 'pickupValue', '$', { min: 0 });
+  check.number(value, 'collisionPenalty', '$', { min: 0 });
+  check.number(value, 'bribeShotCost', '$', { min: 0 });
+  check.number(value, 'freeBribeChance', '$', { min: 0, max: 1 });
+  check.number(value, 'firstGateDelaySec', '$', { optional: true, min: 0 });
+  check.number(value, 'gateIntervalSec', '$', { min: 0, exclusiveMin: true });
+  check.number(value, 'gateDurationSec', '$', { min: 0 });
+  check.number(value, 'minInterstitialIntervalSec', '$', { optional: true, min: 0 });
+  check.number(value, 'dailyContractsPerDay', '$', { optional: true, min: 0, integer: true });
+  check.number(value, 'respecFee', '$', { optional: true, min: 0, max: 1 });
+
+  const tiers = value.coinDrainTiers;
+  if (!check.array(tiers, '$.coinDrainTiers', 1)) return;
+  let previousFrom = -Infinity;
+  tiers.forEach((tier, index) => {
+    const path = `$.coinDrainTiers[${index}]`;
+    if (!check.object(tier, path)) return;
+    const fromSec = check.number(tier, 'fromSec', path, { min: 0 });
+    check.number(tier, 'rate', path, { min: 0 });
+    if (fromSec === undefined) return;
+    if (fromSec <= previousFrom) {
+      check.report(`${path}.fromSec`, `tiers must be sorted by ascending fromSec, ${fromSec} follows ${previousFrom}`);
+    }
+    previousFrom = fromSec;
+  });
+}
+
+/** A sprite id in another data file must name one of `assets.json`; `spriteIds` is null when that file is broken. */
+function checkSprite(obj: JsonObject, path: string, check: FileChecker, spriteIds: string[] | null): void {
+  const sprite = check.string(obj, 'sprite', path, true);
+  if (sprite !== undefined && spriteIds && !spriteIds.includes(sprite)) {
+    check.report(`${path}.sprite`, `sprite "${sprite}" is not defined in ${CONFIG_FILES.assets}`);
+  }
+}
+
+/** `toastKeys` are the `ui_text.toasts` pools of the reference locale. */
+function validateGates(
+  value: unknown,
+  check: FileChecker,
+  toastKeys: string[],
+  firstGateSec: number,
+  spriteIds: string[] | null
+): string[] {
+  if (!check.array(value, '$', 2)) return [];
+
+  let offeredAtFirstGate = 0;
+  value.forEach((gate, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(gate, path)) return;
+    check.knownKeys(gate, GATE_KEYS, path);
+    check.string(gate, 'id', path);
+    check.string(gate, 'name', path);
+    check.string(gate, 'description', path);
+    check.number(gate, 'durationSec', path, { min: 0 });
+    check.boolean(gate, 'permanent', path);
+    const weight = check.number(gate, 'weight', path, { optional: true, min: 0 }) ?? 1;
+    const minElapsedSec = check.number(gate, 'minElapsedSec', path, { optional: true, min: 0 }) ?? 0;
+    if (weight > 0 && minElapsedSec <= firstGateSec) {
+      offeredAtFirstGate += 1;
+    }
+    check.number(gate, 'maxStacks', path, { optional: true, min: 1, integer: true });
+    if (gate.polarity !== undefined && !(GATE_POLARITIES as unknown[]).includes(gate.polarity)) {
+      check.report(`${path}.polarity`, `expected one of ${GATE_POLARITIES.join(', ')}, got ${JSON.stringify(gate.polarity)}`);
+    }
+    const toast = check.string(gate, 'toast', path, true);
+    if (toast !== undefined && !toastKeys.includes(toast)) {
+      check.report(`${path}.toast`, `toast pool "${toast}" is not defined in ${CONFIG_FILES.uiText} ui_text.toasts`);
+    }
+    checkSprite(gate, path, check, spriteIds);
+
+    const effects = gate.effects;
+    const effectsPath = `${path}.effects`;
+    if (!check.object(effects, effectsPath)) return;
+    check.knownKeys(effects, GATE_EFFECT_KEYS, effectsPath);
+    if (Object.keys(effects).length === 0) {
+      check.report(effectsPath, 'has no effect');
+    }
+    for (const key of GATE_MULTIPLIER_KEYS) {
+      // Free bribes are a valid effect; a zero multiplier anywhere else is almost certainly a typo.
+      const exclusiveMin = key !== 'bribeCostMultiplier';
+      check.number(effects, key, effectsPath, { optional: true, min: 0, exclusiveMin });
+    }
+    check.number(effects, 'obols', effectsPath, { optional: true, integer: true });
+    check.number(effects, 'shields', effectsPath, { optional: true, min: 1, integer: true });
+    check.boolean(effects, 'mirrorControls', effectsPath);
+    check.number(effects, 'fog', effectsPath, { optional: true, min: 0, exclusiveMin: true, max: 1 });
+  });
+  if (offeredAtFirstGate < 2) {
+    check.report('$', `fewer than two gates can be offered at the first gate (${firstGateSec}s), check weight and minElapsedSec`);
+  }
+  return check.uniqueIds(value, '$');
+}
+
+function validateMovement(movement: unknown, path: string, check: FileChecker): void {
+  if (!check.object(movement, path)) return;
+  const type = movement.type as ObstacleMovement['type'];
+  if (!Object.prototype.hasOwnProperty.call(OBSTACLE_MOVEMENT_KEYS, type)) {
+    const types = Object.keys(OBSTACLE_MOVEMENT_KEYS);
+    check.report(`${path}.type`, `expected one of ${types.join(', ')}, got ${JSON.stringify(movement.type)}`);
+    return;
+  }
+  check.knownKeys(movement, ['type', ...OBSTACLE_MOVEMENT_KEYS[type]], path);
+  switch (type) {
+    case 'sine':
+      check.number(movement, 'amplitude', path, { min: 0, exclusiveMin: true });
+      check.number(movement, 'frequency', path, { min: 0, exclusiveMin: true });
+      break;
+    case 'homing':
+      check.number(movement, 'speed', path, { min: 0, exclusiveMin: true });
+      check.number(movement, 'range', path, { optional: true, min: 0, exclusiveMin: true });
+      break;
+    case 'diagonal':
+      check.number(movement, 'speed', path, { min: 0, exclusiveMin: true });
+      break;
+  }
+}
+
+function validateObstacles(value: unknown, check: FileChecker, spriteIds: string[] | null): string[] {
+  if (!check.array(value, '$', 1)) return [];
+
+  const ids = check.uniqueIds(value, '$');
+  const splitters = new Set<string>();
+  const splitTargets: Array<{ path: string; into: string }> = [];
+  let spawnable = 0;
+  value.forEach((obstacle, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(obstacle, path)) return;
+    check.knownKeys(obstacle, OBSTACLE_KEYS, path);
+    const id = check.string(obstacle, 'id', path) ?? '';
+    check.number(obstacle, 'radius', path, { min: 0, exclusiveMin: true });
+    check.number(obstacle, 'damage', path, { min: 0 });
+    check.string(obstacle, 'color', path);
+    checkSprite(obstacle, path, check, spriteIds);
+    if ((check.number(obstacle, 'spawnWeight', path, { optional: true, min: 0 }) ?? 1) > 0) {
+      spawnable += 1;
+    }
+
+    const behavior = obstacle.behavior;
+    const behaviorPath = `${path}.behavior`;
+    if (behavior === undefined || !check.object(behavior, behaviorPath)) return;
+    check.knownKeys(behavior, OBSTACLE_BEHAVIOR_KEYS, behaviorPath);
+    if (behavior.movement !== undefined) {
+      validateMovement(behavior.movement, `${behaviorPath}.movement`, check);
+    }
+    check.number(behavior, 'hp', behaviorPath, { optional: true, min: 1, integer: true });
+
+    const split = behavior.split;
+    const splitPath = `${behaviorPath}.split`;
+    if (split === undefined || !check.object(split, splitPath)) return;
+    check.knownKeys(split, ['into', 'count', 'spreadSpeed'], splitPath);
+    splitters.add(id);
+    const into = check.string(split, 'into', splitPath);
+    if (into !== undefined) {
+      splitTargets.push({ path: `${splitPath}.into`, into });
+    }
+    check.number(split, 'count', splitPath, { min: 1, max: 8, integer: true });
+    check.number(split, 'spreadSpeed', splitPath, { min: 0 });
+  });
+  // Pieces may not split again, so one bribe can never start an endless chain.
+  for (const { path, into } of splitTargets) {
+    if (!ids.includes(into)) {
+      check.report(path, `obstacle "${into}" is not defined in ${CONFIG_FILES.obstacles}`);
+    } else if (splitters.has(into)) {
+      check.report(path, `"${into}" splits as well; split pieces must not split again`);
+    }
+  }
+  if (spawnable === 0) {
+    check.report('$', 'every obstacle has spawnWeight 0, nothing would spawn');
+  }
+  return ids;
+}
+
+function validateInterval(obj: JsonObject, key: string, path: string, check: FileChecker): void {
+  const interval = obj[key];
+  const intervalPath = `${path}.${key}`;
+  if (!check.object(interval, intervalPath)) return;
+  check.knownKeys(interval, ['min', 'max'], intervalPath);
+  const min = check.number(interval, 'min', intervalPath, { min: 0, exclusiveMin: true });
+  const max = check.number(interval, 'max', intervalPath, { min: 0, exclusiveMin: true });
+  if (min !== undefined && max !== undefined && max < min) {
+    check.report(intervalPath, `max ${max} is below min ${min}`);
+  }
+}
+
+/** Checks `value` maps known ids to non-negative weights with at least one above zero. */
+function validateWeights(value: unknown, path: string, ids: string[], what: string, check: FileChecker): void {
+  if (!check.object(value, path)) return;
+  let positive = 0;
+  for (const id of Object.keys(value)) {
+    if (!ids.includes(id)) {
+      check.report(`${path}.${id}`, `${what} "${id}" is not defined`);
+      continue;
+    }
+    positive += (check.number(value, id, path, { min: 0 }) ?? 0) > 0 ? 1 : 0;
+  }
+  if (positive === 0) {
+    check.report(path, 'no weight above 0, nothing would be picked');
+  }
+}
+
+function validateSpawnPatterns(
+  value: unknown,
+  check: FileChecker,
+  laneWidth: number,
+  obstacles: unknown,
+  obstacleIds: string[]
+): string[] {
+  if (!check.array(value, '$.patterns')) return [];
+
+  value.forEach((pattern, index) => {
+    const path = `$.patterns[${index}]`;
+    if (!check.object(pattern, path)) return;
+    check.string(pattern, 'id', path);
+    const type = pattern.type as SpawnPatternConfig['type'];
+    if (!Object.prototype.hasOwnProperty.call(SPAWN_PATTERN_KEYS, type)) {
+      const types = Object.keys(SPAWN_PATTERN_KEYS);
+      check.report(`${path}.type`, `expected one of ${types.join(', ')}, got ${JSON.stringify(pattern.type)}`);
+      return;
+    }
+    check.knownKeys(pattern, ['id', 'type', ...SPAWN_PATTERN_KEYS[type]], path);
+
+    if (type === 'coin_line') {
+      const count = check.number(pattern, 'count', path, { min: 1, integer: true });
+      check.number(pattern, 'spacing', path, { min: 0, exclusiveMin: true });
+      const slope = check.number(pattern, 'slope', path, { optional: true });
+      if (count !== undefined && slope !== undefined && Math.abs(slope) * (count - 1) > WORLD_WIDTH / 2) {
+        check.report(`${path}.slope`, `the line drifts ${Math.abs(slope) * (count - 1)}px, more than half the river`);
+      }
+      return;
+    }
+
+    const obstacle = check.string(pattern, 'obstacle', path);
+    if (obstacle !== undefined && !obstacleIds.includes(obstacle)) {
+      check.report(`${path}.obstacle`, `obstacle "${obstacle}" is not defined in ${CONFIG_FILES.obstacles}`);
+    } else if (obstacle !== undefined && Array.isArray(obstacles)) {
+      const template = obstacles.find((item) => (item as JsonObject | null)?.id === obstacle) as JsonObject | undefined;
+      if ((template?.behavior as JsonObject | undefined)?.movement !== undefined) {
+        check.report(`${path}.obstacle`, `"${obstacle}" moves sideways and could close the gap`);
+      }
+    }
+    const maxGap = type === 'slalom' ? WORLD_WIDTH / 2 : WORLD_WIDTH;
+    check.number(pattern, 'gapWidth', path, { optional: true, min: laneWidth, max: maxGap });
+    if (type === 'slalom') {
+      check.number(pattern, 'rows', path, { min: 1, integer: true });
+      check.number(pattern, 'rowSpacing', path, { min: 0, exclusiveMin: true });
+    }
+  });
+  return check.uniqueIds(value, '$.patterns');
+}
+
+function validateSpawnDirector(value: unknown, check: FileChecker, obstacles: unknown, obstacleIds: string[]): void {
+  if (!check.object(value, '$')) return;
+  check.knownKeys(value, SPAWN_DIRECTOR_KEYS, '$');
+  if (value.progress !== 'elapsedSec' && value.progress !== 'distance') {
+    check.report('$.progress', `expected "elapsedSec" or "distance", got ${JSON.stringify(value.progress)}`);
+  }
+  // A lane wider than the river could never be kept, so every spawn would be skipped.
+  const laneWidth = check.number(value, 'laneWidth', '$', { min: 0, exclusiveMin: true, max: WORLD_WIDTH / 2 }) ?? 0;
+  check.number(value, 'rowDepth', '$', { min: 0, exclusiveMin: true });
+  check.number(value, 'gateClearance', '$', { min: 0 });
+  const patternIds = validateSpawnPatterns(value.patterns, check, laneWidth, obstacles, obstacleIds);
+
+  const stages = value.stages;
+  if (!check.array(stages, '$.stages', 1)) return;
+  let previousFrom = -Infinity;
+  stages.forEach((stage, index) => {
+    const path = `$.stages[${index}]`;
+    if (!check.object(stage, path)) return;
+    check.knownKeys(stage, SPAWN_STAGE_KEYS, path);
+    const from = check.number(stage, 'from', path, { min: 0 });
+    if (from !== undefined) {
+      if (index === 0 && from !== 0) {
+        check.report(`${path}.from`, `the first stage must start at 0, got ${from}`);
+      }
+      if (from <= previousFrom) {
+        check.report(`${path}.from`, `stages must be in ascending order of from, ${from} follows ${previousFrom}`);
+      }
+      previousFrom = from;
+    }
+    validateInterval(stage, 'obstacleIntervalSec', path, check);
+    validateInterval(stage, 'coinIntervalSec', path, check);
+    if (stage.obstacleWeights !== undefined) {
+      validateWeights(stage.obstacleWeights, `${path}.obstacleWeights`, obstacleIds, 'obstacle', check);
+    }
+    check.number(stage, 'patternChance', path, { optional: true, min: 0, max: 1 });
+    if (stage.patterns !== undefined) {
+      validateWeights(stage.patterns, `${path}.patterns`, patternIds, 'pattern', check);
+    }
+  });
+}
+
+function validateBossAttack(attack: unknown, path: string, check: FileChecker): number {
+  if (!check.object(attack, path)) return 0;
+  const type = attack.type as BossAttackConfig['type'];
+  if (!Object.prototype.hasOwnProperty.call(BOSS_ATTACK_KEYS, type)) {
+    const types = Object.keys(BOSS_ATTACK_KEYS);
+    check.report(`${path}.type`, `expected one of ${types.join(', ')}, got ${JSON.stringify(attack.type)}`);
+    return 0;
+  }
+  check.knownKeys(attack, [...BOSS_ATTACK_COMMON_KEYS, ...BOSS_ATTACK_KEYS[type]], path);
+  const weight = check.number(attack, 'weight', path, { optional: true, min: 0 }) ?? 1;
+  check.number(attack, 'telegraphSec', path, { min: 0, exclusiveMin: true });
+  check.number(attack, 'radius', path, { min: 0, exclusiveMin: true });
+  check.number(attack, 'speed', path, { min: 0, exclusiveMin: true });
+  check.number(attack, 'damage', path, { min: 0 });
+  switch (type) {
+    case 'volley':
+      check.number(attack, 'count', path, { min: 1, integer: true });
+      check.number(attack, 'spreadDeg', path, { min: 0, max: 180 });
+      break;
+    case 'aimed':
+      check.number(attack, 'count', path, { min: 1, integer: true });
+      check.number(attack, 'intervalSec', path, { min: 0 });
+      break;
+    case 'sweep':
+      // The boat is 50px wide; anything close to that cannot be dodged in practice.
+      check.number(attack, 'gapWidth', path, { min: 100, max: WORLD_WIDTH });
+      break;
+  }
+  return weight;
+}
+
+function validateBosses(value: unknown, check: FileChecker): string[] {
+  if (!check.array(value, '$')) return [];
+
+  value.forEach((boss, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(boss, path)) return;
+    check.knownKeys(boss, BOSS_KEYS, path);
+    check.string(boss, 'id', path);
+    check.string(boss, 'name', path);
+    check.string(boss, 'rewardDescription', path);
+    check.string(boss, 'color', path);
+    check.number(boss, 'repeatEvery', path, { optional: true, min: 0, exclusiveMin: true });
+    check.number(boss, 'scrollMultiplier', path, { min: 0, exclusiveMin: true, max: 1 });
+    check.number(boss, 'y', path, { min: 0, exclusiveMin: true, max: WORLD_HEIGHT / 2 });
+    check.number(boss, 'timeLimitSec', path, { optional: true, min: 0, exclusiveMin: true });
+    check.number(boss, 'hpBonusPerEncounter', path, { optional: true, min: 0, integer: true });
+    validateInterval(boss, 'attackIntervalSec', path, check);
+
+    const triggers = boss.triggerDistances;
+    if (check.array(triggers, `${path}.triggerDistances`, 1)) {
+      let previous = 0;
+      triggers.forEach((distance, triggerIndex) => {
+        const triggerPath = `${path}.triggerDistances[${triggerIndex}]`;
+        if (typeof distance !== 'number' || !Number.isFinite(distance) || distance <= previous) {
+          check.report(triggerPath, `expected a distance above ${previous}, got ${JSON.stringify(distance)}`);
+          return;
+        }
+        previous = distance;
+      });
+    }
+
+    const heads = boss.heads;
+    if (check.array(heads, `${path}.heads`, 1)) {
+      heads.forEach((head, headIndex) => {
+        const headPath = `${path}.heads[${headIndex}]`;
+        if (!check.object(head, headPath)) return;
+        check.knownKeys(head, ['id', 'offsetX', 'radius', 'hp'], headPath);
+        check.string(head, 'id', headPath);
+        const radius = check.number(head, 'radius', headPath, { min: 0, exclusiveMin: true }) ?? 0;
+        const offsetX = check.number(head, 'offsetX', headPath);
+        if (offsetX !== undefined && Math.abs(offsetX) + radius > WORLD_WIDTH / 2) {
+          check.report(`${headPath}.offsetX`, `the head reaches past the river bank (${WORLD_WIDTH}px wide)`);
+        }
+        check.number(head, 'hp', headPath, { min: 1, integer: true });
+      });
+      check.uniqueIds(heads, `${path}.heads`);
+    }
+
+    const attacks = boss.attacks;
+    if (check.array(attacks, `${path}.attacks`, 1)) {
+      const totalWeight = attacks.reduce<number>(
+        (sum, attack, attackIndex) => sum + validateBossAttack(attack, `${path}.attacks[${attackIndex}]`, check),
+        0
+      );
+      if (attacks.length > 0 && totalWeight <= 0) {
+        check.report(`${path}.attacks`, 'no attack has a weight above 0');
+      }
+    }
+
+    const reward = boss.reward;
+    const rewardPath = `${path}.reward`;
+    if (!check.object(reward, rewardPath)) return;
+    check.knownKeys(reward, ['obols', 'runBonus'], rewardPath);
+    check.number(reward, 'obols', rewardPath, { min: 0, integer: true });
+    if (reward.runBonus !== undefined && check.object(reward.runBonus, `${rewardPath}.runBonus`)) {
+      check.knownKeys(reward.runBonus, GATE_MULTIPLIER_KEYS, `${rewardPath}.runBonus`);
+      for (const key of GATE_MULTIPLIER_KEYS) {
+        check.number(reward.runBonus, key, `${rewardPath}.runBonus`, { optional: true, min: 0, exclusiveMin: true });
+      }
+    }
+  });
+  return check.uniqueIds(value, '$');
+}
+
+function validateUpgrades(value: unknown, check: FileChecker): string[] {
+  if (!check.array(value, '$', 1)) return [];
+
+  value.forEach((branch, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(branch, path)) return;
+    check.string(branch, 'id', path);
+    check.string(branch, 'title', path);
+
+    const levels = branch.levels;
+    if (!check.array(levels, `${path}.levels`, 1)) return;
+    levels.forEach((level, levelIndex) => {
+      const levelPath = `${path}.levels[${levelIndex}]`;
+      if (!check.object(level, levelPath)) return;
+      check.number(level, 'cost', levelPath, { min: 0, integer: true });
+      check.string(level, 'title', levelPath);
+      check.string(level, 'shortDesc', levelPath);
+      const effectPath = `${levelPath}.effect`;
+      const effect = level.effect;
+      if (!check.object(effect, effectPath)) return;
+      check.knownKeys(effect, UPGRADE_STAT_KEYS, effectPath);
+      for (const stat of UPGRADE_STAT_KEYS) {
+        const modifier = effect[stat];
+        if (modifier === undefined || !check.object(modifier, `${effectPath}.${stat}`)) continue;
+        check.knownKeys(modifier, STAT_MODIFIER_KEYS, `${effectPath}.${stat}`);
+        if (Object.keys(modifier).filter((key) => STAT_MODIFIER_KEYS.includes(key)).length !== 1) {
+          check.report(`${effectPath}.${stat}`, 'expected exactly one of add, mul');
+        }
+        check.number(modifier, 'add', `${effectPath}.${stat}`, { optional: true });
+        check.number(modifier, 'mul', `${effectPath}.${stat}`, { optional: true, min: 0, exclusiveMin: true });
+      }
+    });
+  });
+
+  return check.uniqueIds(value, '$');
+}
+
+function validateContracts(value: unknown, check: FileChecker, knownIds: Record<CounterSource, string[]>): number {
+  if (!check.array(value, '$')) return 0;
+
+  value.forEach((contract, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(contract, path)) return;
+    check.string(contract, 'id', path);
+    check.string(contract, 'title', path);
+    check.number(contract, 'reward', path, { min: 0 });
+
+    const objective = contract.objective;
+    const objectivePath = `${path}.objective`;
+    if (!check.object(objective, objectivePath)) return;
+    const type = check.string(objective, 'type', objectivePath);
+    check.number(objective, 'target', objectivePath, { min: 0, exclusiveMin: true });
+    if (objective.scope !== undefined && objective.scope !== 'day' && objective.scope !== 'run') {
+      check.report(`${objectivePath}.scope`, `expected "day" or "run", got ${JSON.stringify(objective.scope)}`);
+    }
+
+    if (type !== undefined) {
+      validateCounter(type, `${objectivePath}.type`, check, knownIds);
+    }
+  });
+  check.uniqueIds(value, '$');
+  return value.length;
+}
+
+const COUNTER_SOURCE_NAMES: Record<CounterSource, string> = { gates: 'gate', obstacles: 'obstacle', bosses: 'boss' };
+
+/** Checks a `counter` or `counter:<id>` name used by contracts and achievements. */
+function validateCounter(name: string, path: string, check: FileChecker, knownIds: Record<CounterSource, string[]>): void {
+  const [counter, qualifier] = name.split(':');
+  if (!(PROGRESS_COUNTERS as readonly string[]).includes(counter ?? '')) {
+    check.report(path, `unknown counter "${counter}", expected one of ${PROGRESS_COUNTERS.join(', ')}`);
+    return;
+  }
+  if (qualifier === undefined) return;
+
+  const source = QUALIFIED_COUNTERS[counter as ProgressCounter];
+  if (!source) {
+    check.report(path, `counter "${counter}" does not take a qualifier`);
+  } else if (!knownIds[source].includes(qualifier)) {
+    check.report(path, `${COUNTER_SOURCE_NAMES[source]} "${qualifier}" is not defined in ${CONFIG_FILES[source]}`);
+  }
+}
+
+function validateAchievements(value: unknown, check: FileChecker, knownIds: Record<CounterSource, string[]>): void {
+  if (!check.array(value, '$')) return;
+
+  value.forEach((achievement, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(achievement, path)) return;
+    check.knownKeys(achievement, ['id', 'title', 'description', 'condition', 'reward'], path);
+    check.string(achievement, 'id', path);
+    check.string(achievement, 'title', path);
+    check.string(achievement, 'description', path);
+    check.number(achievement, 'reward', path, { optional: true, min: 0, integer: true });
+
+    const condition = achievement.condition;
+    const conditionPath = `${path}.condition`;
+    if (!check.object(condition, conditionPath)) return;
+    check.knownKeys(condition, ['counter', 'target', 'scope'], conditionPath);
+    const counter = check.string(condition, 'counter', conditionPath);
+    if (counter !== undefined) {
+      validateCounter(counter, `${conditionPath}.counter`, check, knownIds);
+    }
+    check.number(condition, 'target', conditionPath, { min: 0, exclusiveMin: true });
+    if (condition.scope !== undefined && condition.scope !== 'lifetime' && condition.scope !== 'run') {
+      check.report(`${conditionPath}.scope`, `expected "lifetime" or "run", got ${JSON.stringify(condition.scope)}`);
+    }
+  });
+  check.uniqueIds(value, '$');
+}
+
+function validateShopOffers(value: unknown, check: FileChecker, upgradeIds: string[]): void {
+  if (!check.array(value, '$')) return;
+
+  const productIds = new Set<string>();
+  value.forEach((offer, index) => {
+    const path = `$[${index}]`;
+    if (!check.object(offer, path)) return;
+    check.string(offer, 'id', path);
+    const productId = check.string(offer, 'productId', path);
+    if (productId !== undefined) {
+      if (productIds.has(productId)) {
+        check.report(`${path}.productId`, `duplicate productId "${productId}"`);
+      }
+      productIds.add(productId);
+    }
+    check.string(offer, 'title', path);
+    check.string(offer, 'description', path);
+    if (offer.kind !== undefined && !(SHOP_OFFER_KINDS as unknown[]).includes(offer.kind)) {
+      check.report(`${path}.kind`, `expected one of ${SHOP_OFFER_KINDS.join(', ')}, got ${JSON.stringify(offer.kind)}`);
+    }
+
+    const grant = offer.grant;
+    const grantPath = `${path}.grant`;
+    if (!check.object(grant, grantPath)) return;
+    check.knownKeys(grant, SHOP_GRANT_KEYS, grantPath);
+    if (Object.keys(grant).length === 0) {
+      check.report(grantPath, 'grants nothing');
+    }
+    check.number(grant, 'obols', grantPath, { optional: true, min: 0, exclusiveMin: true, integer: true });
+    check.boolean(grant, 'noInterstitials', grantPath);
+    if (grant.upgrades !== undefined && check.object(grant.upgrades, `${grantPath}.upgrades`)) {
+      for (const branch of Object.keys(grant.upgrades)) {
+        if (!upgradeIds.includes(branch)) {
+          check.report(`${grantPath}.upgrades.${branch}`, `unknown upgrade branch, expected one of ${upgradeIds.join(', ')}`);
+          continue;
+        }
+        check.number(grant.upgrades, branch, `${grantPath}.upgrades`, { min: 1, integer: true });
+      }
+    }
+  });
+  check.uniqueIds(value, '$');
+}
+
+function validateWave(obj: JsonObject, path: string, check: FileChecker): void {
+  const wave = check.string(obj, 'wave', path);
+  if (wave !== undefined && !(SYNTH_WAVES as readonly string[]).includes(wave)) {
+    check.report(`${path}.wave`, `unknown wave "${wave}", expected one of ${SYNTH_WAVES.join(', ')}`);
+  }
+}
+
+function validateNamedSounds(
+  value: unknown,
+  path: string,
+  names: readonly string[],
+  check: FileChecker,
+  validateEntry: (entry: JsonObject, entryPath: string) => void
+): void {
+  if (!check.object(value, path)) return;
+  check.knownKeys(value, names, path);
+  for (const name of names) {
+    const entryPath = `${path}.${name}`;
+    if (value[name] === undefined) {
+      check.report(entryPath, 'missing sound');
+      continue;
+    }
+    const entry = value[name];
+    if (!check.object(entry, entryPath)) continue;
+    check.string(entry, 'src', entryPath, true);
+    check.number(entry, 'volume', entryPath, { optional: true, min: 0, max: 1 });
+    if (check.object(entry.synth, `${entryPath}.synth`)) {
+      validateEntry(entry, entryPath);
+    }
+  }
+}
+
+function validateAudio(value: unknown, check: FileChecker): void {
+  if (!check.object(value, '$')) return;
+
+  check.number(value, 'sfxVolume', '$', { min: 0, max: 1 });
+  check.number(value, 'musicVolume', '$', { min: 0, max: 1 });
+  check.number(value, 'crossfadeSec', '$', { min: 0 });
+
+  validateNamedSounds(value.sfx, '$.sfx', SFX_NAMES, check, (entry, path) => {
+    check.number(entry, 'voices', path, { optional: true, min: 1, max: 16, integer: true });
+    const synth = entry.synth as JsonObject;
+    validateWave(synth, `${path}.synth`, check);
+    check.number(synth, 'freq', `${path}.synth`, { min: 0, exclusiveMin: true });
+    check.number(synth, 'endFreq', `${path}.synth`, { optional: true, min: 0, exclusiveMin: true });
+    check.number(synth, 'durationSec', `${path}.synth`, { min: 0, exclusiveMin: true, max: 5 });
+    const attack = check.number(synth, 'attackSec', `${path}.synth`, { optional: true, min: 0 });
+    if (attack !== undefined && typeof synth.durationSec === 'number' && attack >= synth.durationSec) {
+      check.report(`${path}.synth.attackSec`, `must be shorter than durationSec (${synth.durationSec})`);
+    }
+  });
+
+  validateNamedSounds(value.music, '$.music', MUSIC_TRACK_NAMES, check, (entry, path) => {
+    const synth = entry.synth as JsonObject;
+    validateWave(synth, `${path}.synth`, check);
+    check.number(synth, 'noteSec', `${path}.synth`, { min: 0, exclusiveMin: true });
+    const notes = synth.notes;
+    if (check.array(notes, `${path}.synth.notes`, 1)) {
+      notes.forEach((note, index) => {
+        if (typeof note !== 'number' || !Number.isFinite(note) || note <= 0) {
+          check.report(`${path}.synth.notes[${index}]`, `expected positive frequency, got ${describeType(note)}`);
+        }
+      });
+    }
+  });
+}
+
+/** Returns every sprite id the manifest defines, or null when it is not even an object. */
+function validateAssets(value: unknown, check: FileChecker): string[] | null {
+  if (!check.object(value, '$')) return null;
+  check.knownKeys(value, ['images', 'atlases', 'boat', 'coin'], '$');
+
+  const spriteIds: string[] = [];
+  const addSprite = (id: string, path: string): void => {
+    if (spriteIds.includes(id)) {
+      check.report(path, `duplicate sprite id "${id}"`);
+    }
+    spriteIds.push(id);
+  };
+
+  if (check.object(value.images, '$.images')) {
+    for (const id of Object.keys(value.images)) {
+      check.string(value.images, id, '$.images');
+      addSprite(id, `$.images.${id}`);
+    }
+  }
+
+  if (check.object(value.atlases, '$.atlases')) {
+    for (const [id, atlas] of Object.entries(value.atlases)) {
+      const path = `$.atlases.${id}`;
+      if (!check.object(atlas, path)) continue;
+      check.knownKeys(atlas, ['src', 'frames'], path);
+      check.string(atlas, 'src', path);
+      if (!check.object(atlas.frames, `${path}.frames`)) continue;
+      for (const [name, frame] of Object.entries(atlas.frames)) {
+        const framePath = `${path}.frames.${name}`;
+        addSprite(name, framePath);
+        if (!check.object(frame, framePath)) continue;
+        check.knownKeys(frame, ['x', 'y', 'w', 'h'], framePath);
+        check.number(frame, 'x', framePath, { min: 0 });
+        check.number(frame, 'y', framePath, { min: 0 });
+        check.number(frame, 'w', framePath, { min: 0, exclusiveMin: true });
+        check.number(frame, 'h', framePath, { min: 0, exclusiveMin: true });
+      }
+    }
+  }
+
+  for (const key of ['boat', 'coin']) {
+    const sprite = check.string(value, key, '$', true);
+    if (sprite !== undefined && !spriteIds.includes(sprite)) {
+      check.report(`$.${key}`, `unknown sprite "${sprite}"`);
+    }
+  }
+  return spriteIds;
+}
+
+/** Validates every data file plus the rules that span several files. Returns an empty list when all is well. */
+export function validateConfigFiles(files: RawConfigFiles): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const checker = (key: keyof typeof CONFIG_FILES): FileChecker => new FileChecker(CONFIG_FILES[key], issues);
+
+  validateLocaleText(files.uiText, checker('uiText'), true);
+  const economyCheck = checker('economy');
+  validateEconomy(files.economy, economyCheck);
+  const uiText = files.uiText as { ui_text?: { toasts?: unknown } } | null;
+  const toasts = uiText?.ui_text?.toasts;
+  const toastKeys = typeof toasts === 'object' && toasts !== null ? Object.keys(toasts) : [];
+  const firstGateSec = (files.economy as { firstGateDelaySec?: unknown } | null)?.firstGateDelaySec;
+  const spriteIds = validateAssets(files.assets, checker('assets'));
+  const gateIds = validateGates(
+    files.gates,
+    checker('gates'),
+    toastKeys,
+    typeof firstGateSec === 'number' ? firstGateSec : DEFAULT_FIRST_GATE_DELAY_SEC,
+    spriteIds
+  );
+  const obstacleIds = validateObstacles(files.obstacles, checker('obstacles'), spriteIds);
+  validateSpawnDirector(files.spawnDirector, checker('spawnDirector'), files.obstacles, obstacleIds);
+  const bossIds = validateBosses(files.bosses, checker('bosses'));
+  const knownIds = { gates: gateIds, obstacles: obstacleIds, bosses: bossIds };
+  const upgradeIds = validateUpgrades(files.upgrades, checker('upgrades'));
+  const contractCount = validateContracts(files.dailyContracts, checker('dailyContracts'), knownIds);
+  validateAudio(files.audio, checker('audio'));
+  validateShopOffers(files.shopOffers, checker('shopOffers'), upgradeIds);
+  validateAchievements(files.achievements, checker('achievements'), knownIds);
+
+  const perDay = (files.economy as { dailyContractsPerDay?: unknown } | null)?.dailyContractsPerDay;
+  if (typeof perDay === 'number' && perDay > contractCount) {
+    economyCheck.report('$.dailyContractsPerDay', `${perDay} per day but ${CONFIG_FILES.dailyContracts} defines only ${contractCount}`);
+  }
+
+  return issues;
+}
+
+/** Validates a non-reference `ui_text_<lang>.json` loaded on demand when the player switches language. */
+export function validateLocaleFile(file: string, value: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateLocaleText(value, new FileChecker(file, issues), false);
+  return issues;
+}
+
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map((issue) => `${issue.file} ${issue.path}: ${issue.reason}`).join('\n');
+}
@@ -0,0 +1,6 @@
+// Calendar helpers shared by the simulation core and the services. No DOM access.
+
+/** UTC day as `YYYY-MM-DD`: daily seeds and contract rotation both change at UTC midnight. */
+export function dayKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,70 @@
+// Allocation-free entity storage for the simulation: no DOM access, runs headless like the rest of core.
+
+/** What the pool needs on every entity it stores. */
+export interface PooledEntity {
+  /** Spawn order within the pool; never reused, so it keeps "first spawned wins" rules deterministic after swap-removes. */
+  seq: number;
+  /** Cleared to drop the entity; `sweep` then returns it to the free list. */
+  alive: boolean;
+}
+
+/**
+ * Live entities in a dense array plus a free list of dropped ones that `spawn` hands out again. Removal swaps the last
+ * entity into the gap, so `items` is in no particular order; compare `seq` where order matters.
+ */
+export class EntityPool<T extends PooledEntity> {
+  readonly items: T[] = [];
+  private readonly free: T[] = [];
+  private nextSeq = 0;
+
+  constructor(private readonly create: () => T) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /** A recycled or new entity, already counted as alive. The caller sets every other field. */
+  spawn(): T {
+    const item = this.free.pop() ?? this.create();
+    item.seq = this.nextSeq;
+    item.alive = true;
+    this.nextSeq += 1;
+    this.items.push(item);
+    return item;
+  }
+
+  /** Drops every entity whose `alive` flag was cleared. */
+  sweep(): void {
+    let i = 0;
+    while (i < this.items.length) {
+      const item = this.items[i] as T;
+      if (item.alive) {
+        i += 1;
+        continue;
+      }
+      const last = this.items.pop() as T;
+      if (last !== item) {
+        this.items[i] = last;
+      }
+      this.free.push(item);
+    }
+  }
+
+  /** Clears `alive` on every entity matching `dead` and sweeps them in the same pass. */
+  removeWhere(dead: (item: T) => boolean): void {
+    for (const item of this.items) {
+      if (dead(item)) {
+        item.alive = false;
+      }
+    }
+    this.sweep();
+  }
+
+  clear(): void {
+    for (const item of this.items) {
+      item.alive = false;
+      this.free.push(item);
+    }
+    this.items.length = 0;
+  }
+}
@@ -0,0 +1,40 @@
+// Frame-rate independent stepping for the simulation; no DOM access, so it can be driven headless as well.
+
+/** Absorbs rounding in the accumulator, so 1/144 s frames do not leave a step hanging at 0.99999. */
+const EPSILON = 1e-9;
+
+/**
+ * Turns variable frame times into a whole number of fixed steps. Leftover time carries over to the next frame, and
+ * `alpha` says how far the view is between the last two steps. After a long stall only `maxSteps` steps run and the
+ * rest of the backlog is dropped: the game slows down instead of freezing while it catches up.
+ */
+export class FixedTimestep {
+  private accumulator = 0;
+
+  constructor(
+    readonly stepSec: number,
+    private readonly maxSteps: number
+  ) {}
+
+  /** Fraction of a step the frame is past the last step, 0..1; the view interpolates positions with it. */
+  get alpha(): number {
+    return Math.min(1, this.accumulator / this.stepSec);
+  }
+
+  /** Adds a frame's time and returns how many steps to run now. */
+  advance(elapsedSec: number): number {
+    this.accumulator += Math.max(0, elapsedSec);
+    let steps = Math.floor(this.accumulator / this.stepSec + EPSILON);
+    if (steps > this.maxSteps) {
+      steps = this.maxSteps;
+      this.accumulator = this.stepSec * this.maxSteps;
+    }
+    this.accumulator = Math.max(0, this.accumulator - steps * this.stepSec);
+    return steps;
+  }
+
+  /** Forgets carried-over time, e.g. when a run starts or resumes from a pause. */
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
@@ -1,84 +1,153 @@
-import type { Platform } from '../../platform/Platform';
+import type { LeaderboardQuery, Platform, PlatformPurchase } from '../../platform/Platform';
+import { AchievementService } from '../services/AchievementService';
 import { AudioManager } from '../services/AudioManager';
+import { ContractService } from '../services/ContractService';
+import { PurchaseService } from '../services/PurchaseService';
+import { RespecService } from '../services/RespecService';
+import { ConsoleSink, PlatformSink, RingBufferSink } from '../services/AnalyticsSinks';
+import { GameEventBus, type AdFormat, type AdPlacement, type GameEvent } from '../services/GameEvents';
+import { updateRecords } from '../services/RunRecords';
+import type { SaveConflict } from '../services/SaveMerge';
 import { SaveService } from '../services/SaveService';
-import type {
-  GateConfig,
-  GateEffect,
-  ObstacleConfig,
-  SaveData,
-  UiText,
-  UpgradeEffect,
-  UpgradeLevelConfig
-} from '../types/config';
+import { DRAG_MODES, SETTINGS_RANGES, TOAST_LEVELS, type RangeSetting } from '../services/Settings';
+import type { AchievementConfig, GameSettings, GateConfig, SaveData, ShopOfferConfig, UpgradeStat } from '../types/config';
+import type { BossEncounter, BossTelegraph } from './BossEncounter';
+import { FixedTimestep } from './FixedTimestep';
 import { GameConfig } from './GameConfig';
-
-interface Vec2 { x: number; y: number; }
-interface ObstacleEntity extends Vec2 { r: number; color: string; damage: number; }
-interface CoinEntity extends Vec2 { r: number; value: number; }
-interface ProjectileEntity extends Vec2 { r: number; speed: number; }
-interface GatePair {
-  y: number;
-  left: GateConfig;
-  right: GateConfig;
-  width: number;
-  chosen: boolean;
-}
-interface ActiveEffect {
-  gateId: string;
-  effect: GateEffect;
-  permanent: boolean;
-  remainingSec: number;
-}
-
-const WIDTH = 900;
-const HEIGHT = 520;
-const GATE_GAP = 120;
-const GATE_HEIGHT = 26;
-const REVIVE_INVULN_MS = 1200;
-const BASE_MAGNET_RADIUS = 50;
-const BASE_BRIBE_COOLDOWN_SEC = 0.45;
+import { GameStateMachine } from './GameStateMachine';
+import { LeaderboardView } from './LeaderboardView';
+import { LoadingScreen } from './LoadingScreen';
+import { LANGUAGE_NAMES, SUPPORTED_LANGUAGES, type Localization, type TextKey } from './Localization';
+import { Rng, dailySeed, formatSeed, randomSeed } from './Random';
+import { RespecDialog } from './RespecDialog';
+import { RunSummaryView, type RunSummary } from './RunSummaryView';
+import { SpriteSet } from './Sprites';
+import {
+  REPLAY_FLAG_PAUSE,
+  REPLAY_FLAG_REVIVE,
+  ReplayPlayer,
+  ReplayRecorder,
+  configHash,
+  decodeReplay,
+  encodeReplay,
+  quantizeDragX,
+  quantizeDt,
+  type ReplayData
+} from './Replay';
+import {
+  GATE_HEIGHT,
+  RunSimulation,
+  SIM_STEP_SEC,
+  WORLD_HEIGHT as HEIGHT,
+  WORLD_WIDTH as WIDTH,
+  gateRects,
+  type GatePair,
+  type InputFrame,
+  type InputSource,
+  type LossCause,
+  type ObstacleEntity,
+  type RunEvent
+} from './RunSimulation';
+import { UPGRADE_STAT_KEYS, upgradeStats } from './UpgradeStats';
+
+const FX_RNG_SALT = 0x7f4a7c15;
+const HIT_FLASH_SEC = 0.25;
+const LEADERBOARD_QUERY: LeaderboardQuery = { top: 5, around: 2 };
+const ACHIEVEMENT_BANNER_SEC = 3;
+/** Longer frames (a stalled tab) count as this much; anything beyond is not simulated. */
+const MAX_FRAME_SEC = 0.25;
+/** Steps one frame may run to catch up; a slower device plays in slow motion rather than stalling. */
+const MAX_CATCH_UP_STEPS = 8;
+/** Dev builds: `[` and `]` step through these, `\` goes back to 1. */
+const DEBUG_TIME_SCALES = [0.125, 0.25, 0.5, 1, 2, 4];
+/** Events kept for the playtest download; a long session is a few thousand. */
+const EVENT_LOG_CAPACITY = 5000;
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-function rand(min: number, max: number): number {
-  return min + Math.random() * (max - min);
-}
-
-function intersects(a: Vec2 & { r: number }, b: Vec2 & { r: number }): boolean {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  const radius = a.r + b.r;
-  return dx * dx + dy * dy <= radius * radius;
-}
-
-function distanceSq(a: Vec2, b: Vec2): number {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return dx * dx + dy * dy;
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
 }
 
 export class Game {
+  /** Data files count as the first step of the loading bar, each sprite image as one more. */
   static async boot(root: HTMLElement, platform: Platform): Promise<void> {
+    const loading = new LoadingScreen(root);
     const config = await GameConfig.load();
-    const game = new Game(root, config, platform);
+    const sprites = await SpriteSet.load(config.assets, (done, total) => loading.setProgress((1 + done) / (1 + total)));
+    const saveData = await SaveService.load(config.upgrades, await platform.loadCloudSave(), async (conflict) => {
+      loading.remove();
+      const conflictText = await config.useLanguage(conflict.local.settings.language ?? platform.getLanguage());
+      return Game.askSaveChoice(root, conflictText, conflict);
+    });
+    const text = await config.useLanguage(saveData.settings.language ?? platform.getLanguage());
+    document.documentElement.lang = text.language;
+    loading.remove();
+    const game = new Game(root, config, platform, saveData, sprites);
     game.start();
   }
 
+  /** Boot-time prompt shown before the game exists, when local and cloud progress cannot be merged. */
+  private static askSaveChoice(root: HTMLElement, text: Localization, conflict: SaveConflict): Promise<SaveData> {
+    return new Promise((resolve) => {
+      const wrap = document.createElement('div');
+      wrap.className = 'save-conflict';
+      const card = document.createElement('div');
+      card.className = 'modal-card';
+      const title = document.createElement('h2');
+      title.textContent = text.t('saveConflictTitle');
+      const body = document.createElement('p');
+      body.textContent = text.t('saveConflictBody');
+      const row = document.createElement('div');
+      row.className = 'modal-row';
+
+      const options: Array<[SaveData, string]> = [
+        [conflict.local, text.t('saveConflictLocal')],
+        [conflict.cloud, text.t('saveConflictCloud')]
+      ];
+      for (const [save, label] of options) {
+        const button = document.createElement('button');
+        const savedAt = save.savedAt > 0 ? new Date(save.savedAt).toLocaleString(text.language) : '—';
+        button.textContent = `${label}: ${text.t('saveConflictSummary', {
+          wallet: Math.floor(save.walletCoins),
+          best: save.bestScore,
+          savedAt
+        })}`;
+        button.addEventListener('click', () => {
+          wrap.remove();
+          resolve(save);
+        });
+        row.append(button);
+      }
+
+      card.append(title, body, row);
+      wrap.append(card);
+      root.append(wrap);
+    });
+  }
+
   private readonly config: GameConfig;
+  private readonly sprites: SpriteSet;
+  /** Obstacle type id to its sprite id, for the types that have one. */
+  private readonly obstacleSprites: Map<string, string>;
   private readonly platform: Platform;
-  private readonly uiText: UiText;
   private readonly shell: HTMLDivElement;
   private readonly canvas: HTMLCanvasElement;
   private readonly ctx: CanvasRenderingContext2D;
   private readonly coinPill: HTMLDivElement;
   private readonly scorePill: HTMLDivElement;
   private readonly pauseButton: HTMLButtonElement;
+  private readonly hudSettingsButton: HTMLButtonElement;
   private readonly bribeButton: HTMLButtonElement;
   private readonly toast: HTMLDivElement;
+  private readonly achievementBanner: HTMLDivElement;
   private readonly modal: HTMLDivElement;
   private readonly modalText: HTMLParagraphElement;
+  private readonly runSummary: RunSummaryView;
+  /** The last death's summary; null after a replay, which shows `modalText` instead. */
+  private summary: RunSummary | null = null;
   private readonly reviveButton: HTMLButtonElement;
   private readonly rewardX2Button: HTMLButtonElement;
   private readonly restartButton: HTMLButtonElement;
@@ -86,77 +155,111 @@ export class Game {
   private readonly menuWallet: HTMLDivElement;
   private readonly menuBest: HTMLDivElement;
   private readonly startRunButton: HTMLButtonElement;
+  private readonly dailyRunButton: HTMLButtonElement;
   private readonly shopRows: Record<string, {
     level: HTMLSpanElement;
     cost: HTMLSpanElement;
     title: HTMLDivElement;
     desc: HTMLDivElement;
+    stats: HTMLDivElement;
     button: HTMLButtonElement;
+    respec: HTMLButtonElement;
   }> = {};
+  private readonly respecAllButton: HTMLButtonElement;
+  private readonly respecDialog: RespecDialog;
   private readonly resetProgressButton: HTMLButtonElement;
+  private readonly menuSettingsButton: HTMLButtonElement;
+  private readonly settingsPanel: HTMLDivElement;
+  private readonly settingsCloseButton: HTMLButtonElement;
+  private readonly eventLogButton: HTMLButtonElement;
+  private readonly menuLeaderboard: LeaderboardView;
+  private readonly modalLeaderboard: LeaderboardView;
+  private readonly contractList: HTMLDivElement;
+  private readonly offerList: HTMLDivElement;
+  private readonly achievementList: HTMLDivElement;
+  private readonly replayBox: HTMLTextAreaElement;
+  private readonly replayExportButton: HTMLButtonElement;
+  private readonly replayPlayButton: HTMLButtonElement;
+  private readonly languageSelect: HTMLSelectElement;
+  /** Re-run on language change so static labels follow the picked locale. */
+  private readonly textBindings: Array<() => void> = [];
 
   private saveData: SaveData;
   private readonly audio: AudioManager;
+  private readonly contracts: ContractService;
+  private readonly purchases: PurchaseService;
+  private readonly respec: RespecService;
+  private readonly achievements: AchievementService;
+  /** Unlocks waiting for the banner; shown one at a time. */
+  private readonly achievementQueue: AchievementConfig[] = [];
+  private achievementTimer = 0;
+  /** Platform prices by product id; null while loading, empty when payments are unavailable. */
+  private prices: Map<string, string> | null = null;
+  private purchaseInFlight = false;
+  private readonly gameplayHash: string;
 
-  private player = { x: WIDTH / 2, y: HEIGHT - 70, w: 50, h: 36, speed: 340 };
   private keys = new Set<string>();
 
-  private obstacles: ObstacleEntity[] = [];
-  private coins: CoinEntity[] = [];
-  private projectiles: ProjectileEntity[] = [];
-  private gates: GatePair[] = [];
-  private effects: ActiveEffect[] = [];
-
-  private elapsedSec = 0;
-  private distance = 0;
-  private coinsBalance = 0;
-  private paused = true;
-  private manualPaused = false;
-  private pausedByUser = false;
-  private gameOver = false;
-  private runActive = false;
+  private sim: RunSimulation;
+  private fxRng: Rng;
+  private dailyRun = false;
+  /** Identifies the current run to the leaderboard so a boosted score replaces the first submit. */
+  private runKey = '';
+  /** Increments per fetch; an older response that arrives late is dropped. */
+  private leaderboardRequest = 0;
+
+  private pendingDragX: number | null = null;
+  /** Pointer and boat position when the current drag began; relative drag moves from there. */
+  private dragOrigin = { clientX: 0, boatX: 0, mirrored: false };
+  private bribeQueued = false;
+  private recorder: ReplayRecorder | null = null;
+  private replay: ReplayPlayer | null = null;
+  private lastReplayData: ReplayData | null = null;
+  private readonly liveInput: InputSource = { read: (dt) => this.sampleInput(dt) };
+
+  private readonly state = new GameStateMachine();
+  private readonly events = new GameEventBus();
+  private readonly eventLog = new RingBufferSink(EVENT_LOG_CAPACITY);
+  private runRevives = 0;
+  /** Distance already fed to the `distance` counter; a revived run only adds what it covered since. */
+  private recordedDistance = 0;
+  /** Died and not yet counted as finished: a revive can still carry the run on. */
+  private runFinishPending = false;
   private deathCount = 0;
-  private reviveInvulnMs = 0;
   private lastInterstitialAtMs = 0;
   private gameOverBaseScore = 0;
   private gameOverScoreMultiplier = 1;
 
-  private soulsCollected = 0;
   private sessionEarningsBase = 0;
-
-  private shieldMax = 0;
-  private shieldCount = 0;
-  private shieldRegenSec = 0;
-  private shieldRegenTimer = 0;
-  private obstacleDamageMult = 1;
-
-  private magnetMult = 1;
-  private soulValueMult = 1;
-  private doubleSoulChance = 0;
-
-  private bribeCooldownMult = 1;
-  private freeBribeEverySec = 0;
-  private bribeSplashRadius = 0;
-  private bribeCooldownLeftSec = 0;
-  private freeBribeTimerSec = 0;
-  private freeBribeReady = false;
-
-  private obstacleSpawnTimer = 0;
-  private coinSpawnTimer = 0;
-  private gateSpawnTimer = 0;
   private toastTimer = 0;
+  private hitFlash = 0;
 
   private pointerDrag = false;
   private dragPointerId: number | null = null;
   private lastTime = 0;
+  private readonly timestep = new FixedTimestep(SIM_STEP_SEC, MAX_CATCH_UP_STEPS);
+  /** How far the view is between the last two simulation steps; see `lerp`. */
+  private renderAlpha = 1;
+  private timeScale = 1;
   private dpr = 1;
 
-  constructor(root: HTMLElement, config: GameConfig, platform: Platform) {
+  constructor(root: HTMLElement, config: GameConfig, platform: Platform, saveData: SaveData, sprites: SpriteSet) {
     this.config = config;
+    this.sprites = sprites;
+    this.obstacleSprites = new Map(config.obstacles.flatMap((obstacle) => (obstacle.sprite ? [[obstacle.id, obstacle.sprite]] : [])));
     this.platform = platform;
-    this.uiText = config.uiText;
-    this.saveData = SaveService.load(config.upgrades);
-    this.audio = new AudioManager();
+    this.saveData = saveData;
+    this.audio = new AudioManager(config.audio);
+    this.contracts = new ContractService(config.dailyContracts, config.economy.dailyContractsPerDay);
+    if (this.contracts.refresh(this.saveData)) {
+      SaveService.store(this.saveData);
+    }
+    this.purchases = new PurchaseService(config.shopOffers, config.upgrades);
+    this.respec = new RespecService(config.upgrades, config.economy.respecFee);
+    this.achievements = new AchievementService(config.achievements);
+    this.gameplayHash = configHash(config);
+    this.sim = this.createSimulation(randomSeed(), this.saveData.upgrades, this.liveInput, this.settings.steeringSpeed);
+    this.fxRng = this.sim.rng.fork(FX_RNG_SALT);
 
     this.shell = document.createElement('div');
     this.shell.className = 'game-shell';
@@ -178,13 +281,17 @@ export class Game {
     this.pauseButton = document.createElement('button');
     this.pauseButton.className = 'pill';
 
-    topRow.append(this.coinPill, this.scorePill, this.pauseButton);
+    this.hudSettingsButton = document.createElement('button');
+    this.hudSettingsButton.className = 'pill';
+    this.hudSettingsButton.textContent = '⚙';
+    this.bindTitle(this.hudSettingsButton, () => this.text.t('btn_settings'));
+
+    topRow.append(this.coinPill, this.scorePill, this.pauseButton, this.hudSettingsButton);
 
     const bottomRow = document.createElement('div');
     bottomRow.className = 'bottom-row';
     this.bribeButton = document.createElement('button');
     this.bribeButton.className = 'pill bribe-button';
-    this.bribeButton.textContent = 'ОТКУП';
     bottomRow.append(this.bribeButton);
 
     this.toast = document.createElement('div');
@@ -192,6 +299,10 @@ export class Game {
 
     hud.append(topRow, this.toast, bottomRow);
 
+    this.achievementBanner = document.createElement('div');
+    this.achievementBanner.className = 'achievement-banner';
+    this.achievementBanner.hidden = true;
+
     this.modal = document.createElement('div');
     this.modal.className = 'modal';
     this.modal.hidden = true;
@@ -199,15 +310,18 @@ export class Game {
     card.className = 'modal-card';
     this.modalText = document.createElement('p');
     this.reviveButton = document.createElement('button');
-    this.reviveButton.textContent = this.uiText.revive;
+    this.bindText(this.reviveButton, () => this.text.t('revive'));
     this.rewardX2Button = document.createElement('button');
-    this.rewardX2Button.textContent = 'СМОТРЕТЬ РЕКЛАМУ (x2 ВЫРУЧКУ)';
+    this.bindText(this.rewardX2Button, () => this.rewardX2Label());
     this.restartButton = document.createElement('button');
-    this.restartButton.textContent = this.uiText.btn_retry ?? 'В РЕСЕПШН';
+    this.bindText(this.restartButton, () => this.text.t('btn_retry'));
     const row = document.createElement('div');
     row.className = 'modal-row';
     row.append(this.reviveButton, this.rewardX2Button, this.restartButton);
-    card.append(this.modalText, row);
+    this.modalLeaderboard = new LeaderboardView(() => this.text, () => void this.refreshLeaderboards());
+    this.textBindings.push(() => this.modalLeaderboard.render());
+    this.runSummary = new RunSummaryView(() => this.text);
+    card.append(this.modalText, this.runSummary.element, this.modalLeaderboard.element, row);
     this.modal.append(card);
 
     this.menu = document.createElement('div');
@@ -215,21 +329,24 @@ export class Game {
     const menuCard = document.createElement('div');
     menuCard.className = 'menu-card';
     const menuTitle = document.createElement('h2');
-    menuTitle.textContent = this.uiText.screen_menu ?? this.uiText.title;
+    this.bindText(menuTitle, () => this.text.t('screen_menu'));
     this.menuWallet = document.createElement('div');
     this.menuWallet.className = 'menu-stats';
     this.menuBest = document.createElement('div');
     this.menuBest.className = 'menu-stats';
     this.startRunButton = document.createElement('button');
     this.startRunButton.className = 'menu-start';
-    this.startRunButton.textContent = this.uiText.btn_start ?? 'НАЧАТЬ СМЕНУ';
+    this.bindText(this.startRunButton, () => this.text.t('btn_start'));
+    this.dailyRunButton = document.createElement('button');
+    this.dailyRunButton.className = 'menu-start menu-daily';
+    this.bindText(this.dailyRunButton, () => this.text.t('btn_daily'));
 
     const controls = document.createElement('p');
     controls.className = 'menu-controls';
-    controls.textContent = 'Управление: A/D или ←/→, перетаскивание по экрану. Пробел или ОТКУП — выстрел.';
+    this.bindText(controls, () => this.text.t('lbl_controls'));
 
     const shopTitle = document.createElement('h3');
-    shopTitle.textContent = this.uiText.screen_shop ?? 'Бухгалтерия';
+    this.bindText(shopTitle, () => this.text.t('screen_shop'));
     const shop = document.createElement('div');
     shop.className = 'shop-grid';
 
@@ -239,48 +356,299 @@ export class Game {
       const head = document.createElement('div');
       head.className = 'shop-head';
       const name = document.createElement('strong');
-      name.textContent = branch.title;
+      this.bindText(name, () => this.text.upgradeTitle(branch));
       const level = document.createElement('span');
       head.append(name, level);
       const title = document.createElement('div');
       title.className = 'shop-title';
       const desc = document.createElement('div');
       desc.className = 'shop-desc';
+      const stats = document.createElement('div');
+      stats.className = 'shop-stats';
       const actions = document.createElement('div');
       actions.className = 'shop-actions';
       const cost = document.createElement('span');
       const button = document.createElement('button');
-      button.textContent = this.uiText.btn_buy ?? 'КУПИТЬ';
-      actions.append(cost, button);
-      item.append(head, title, desc, actions);
+      this.bindText(button, () => this.text.t('btn_buy'));
+      const respec = document.createElement('button');
+      this.bindText(respec, () => this.text.t('btn_respec'));
+      actions.append(cost, respec, button);
+      item.append(head, title, desc, stats, actions);
       shop.append(item);
-      this.shopRows[branch.id] = { level, cost, title, desc, button };
+      this.shopRows[branch.id] = { level, cost, title, desc, stats, button, respec };
       button.addEventListener('click', () => {
         void this.buyUpgrade(branch.id);
       });
+      respec.addEventListener('click', () => {
+        void this.respecUpgrades(branch.id);
+      });
     }
+    this.respecAllButton = document.createElement('button');
+    this.respecAllButton.className = 'menu-respec';
+    this.bindText(this.respecAllButton, () => this.text.t('btn_respec_all'));
+
+    const achievementsTitle = document.createElement('h3');
+    this.bindText(achievementsTitle, () => this.text.t('screen_achievements'));
+    this.achievementList = document.createElement('div');
+    this.achievementList.className = 'achievement-list';
+
+    const premiumTitle = document.createElement('h3');
+    this.bindText(premiumTitle, () => this.text.t('screen_premium'));
+    this.offerList = document.createElement('div');
+    this.offerList.className = 'offer-list';
+
+    const contractsTitle = document.createElement('h3');
+    this.bindText(contractsTitle, () => this.text.t('screen_contracts'));
+    this.contractList = document.createElement('div');
+    this.contractList.className = 'contract-list';
+
+    const leaderboardTitle = document.createElement('h3');
+    this.bindText(leaderboardTitle, () => this.text.t('screen_leaderboard'));
+    this.menuLeaderboard = new LeaderboardView(() => this.text, () => void this.refreshLeaderboards());
+    this.textBindings.push(() => this.menuLeaderboard.render());
+
+    const replayTitle = document.createElement('h3');
+    this.bindText(replayTitle, () => this.text.t('screen_replays'));
+    this.replayBox = document.createElement('textarea');
+    this.replayBox.className = 'replay-box';
+    this.replayBox.rows = 2;
+    this.replayBox.spellcheck = false;
+    this.replayExportButton = document.createElement('button');
+    this.bindText(this.replayExportButton, () => this.text.t('btn_replay_export'));
+    this.replayPlayButton = document.createElement('button');
+    this.bindText(this.replayPlayButton, () => this.text.t('btn_replay_play'));
+    const replayActions = document.createElement('div');
+    replayActions.className = 'shop-actions';
+    replayActions.append(this.replayExportButton, this.replayPlayButton);
 
     this.resetProgressButton = document.createElement('button');
     this.resetProgressButton.className = 'menu-reset';
-    this.resetProgressButton.textContent = this.uiText.btn_reset_progress ?? 'Сбросить прогресс';
-
-    menuCard.append(menuTitle, this.menuWallet, this.menuBest, this.startRunButton, controls, shopTitle, shop, this.resetProgressButton);
+    this.bindText(this.resetProgressButton, () => this.text.t('btn_reset_progress'));
+    this.menuSettingsButton = document.createElement('button');
+    this.menuSettingsButton.className = 'menu-settings';
+    this.bindText(this.menuSettingsButton, () => this.text.t('btn_settings'));
+
+    const languageRow = document.createElement('label');
+    languageRow.className = 'settings-row';
+    const languageLabel = document.createElement('span');
+    this.bindText(languageLabel, () => this.text.t('lbl_language'));
+    this.languageSelect = document.createElement('select');
+    for (const language of SUPPORTED_LANGUAGES) {
+      const option = document.createElement('option');
+      option.value = language;
+      option.textContent = LANGUAGE_NAMES[language];
+      this.languageSelect.append(option);
+    }
+    this.languageSelect.value = this.text.language;
+    languageRow.append(languageLabel, this.languageSelect);
+
+    menuCard.append(
+      menuTitle,
+      this.menuWallet,
+      this.menuBest,
+      this.startRunButton,
+      this.dailyRunButton,
+      controls,
+      contractsTitle,
+      this.contractList,
+      leaderboardTitle,
+      this.menuLeaderboard.element,
+      achievementsTitle,
+      this.achievementList,
+      shopTitle,
+      shop,
+      this.respecAllButton,
+      premiumTitle,
+      this.offerList,
+      replayTitle,
+      this.replayBox,
+      replayActions,
+      this.menuSettingsButton,
+      this.resetProgressButton
+    );
     this.menu.append(menuCard);
 
-    this.shell.append(this.canvas, hud, this.modal, this.menu);
+    this.settingsPanel = document.createElement('div');
+    this.settingsPanel.className = 'settings-overlay';
+    this.settingsPanel.hidden = true;
+    const settingsCard = document.createElement('div');
+    settingsCard.className = 'modal-card settings-card';
+    const settingsTitle = document.createElement('h2');
+    this.bindText(settingsTitle, () => this.text.t('screen_settings'));
+    this.settingsCloseButton = document.createElement('button');
+    this.bindText(this.settingsCloseButton, () => this.text.t('btn_close'));
+    this.eventLogButton = document.createElement('button');
+    this.bindText(this.eventLogButton, () => this.text.t('btn_export_events'));
+    settingsCard.append(
+      settingsTitle,
+      this.createRangeSetting('masterVolume', 'lbl_master_volume', formatPercent),
+      this.createRangeSetting('musicVolume', 'lbl_music_volume', formatPercent),
+      this.createRangeSetting('sfxVolume', 'lbl_sfx_volume', formatPercent),
+      this.createRangeSetting('steeringSpeed', 'lbl_steering_speed', (value) => String(value)),
+      this.createChoiceSetting('dragMode', 'lbl_drag_mode', DRAG_MODES, (mode) => `opt_drag_${mode}`),
+      this.createRangeSetting('dragSensitivity', 'lbl_drag_sensitivity', (value) => `×${value.toFixed(2)}`),
+      this.createToggleSetting('reducedMotion', 'lbl_reduced_motion'),
+      this.createToggleSetting('screenEffects', 'lbl_screen_effects'),
+      this.createChoiceSetting('toasts', 'lbl_toasts', TOAST_LEVELS, (level) => `opt_toasts_${level}`),
+      languageRow,
+      this.eventLogButton,
+      this.settingsCloseButton
+    );
+    this.settingsPanel.append(settingsCard);
+
+    this.respecDialog = new RespecDialog(() => this.text);
+
+    this.shell.append(this.canvas, hud, this.modal, this.menu, this.settingsPanel, this.respecDialog.element, this.achievementBanner);
     root.append(this.shell);
 
     this.updatePauseButtonLabel();
     this.renderMenu();
 
+    this.events.addSink(this.eventLog);
+    this.events.addSink(new PlatformSink(this.platform));
+    if (import.meta.env.DEV) {
+      this.events.addSink(new ConsoleSink());
+    }
+    this.bindStateHooks();
     this.bindEvents();
-    this.audio.startMusic();
-    this.showToast(this.config.dailyContracts[0]?.title ?? this.uiText.title);
+    this.applySettings();
+    this.audio.bindUnlock(window);
+    this.audio.playMusic('menu');
+    this.showToast(this.nextContractTitle() ?? this.text.t('title'));
     this.updateHud();
     this.syncBannerVisibility();
+    void this.refreshLeaderboards();
+    void this.loadCatalog();
+    void this.restorePurchases();
     this.platform.gameReady();
   }
 
+  private get text(): Localization {
+    return this.config.text;
+  }
+
+  private get settings(): GameSettings {
+    return this.saveData.settings;
+  }
+
+  private bindText(element: HTMLElement, render: () => string): void {
+    const apply = (): void => {
+      element.textContent = render();
+    };
+    apply();
+    this.textBindings.push(apply);
+  }
+
+  /** Same as `bindText`, for icon-only buttons that carry their label as a tooltip. */
+  private bindTitle(element: HTMLElement, render: () => string): void {
+    const apply = (): void => {
+      element.title = render();
+      element.setAttribute('aria-label', element.title);
+    };
+    apply();
+    this.textBindings.push(apply);
+  }
+
+  private createSettingRow(label: TextKey, control: HTMLElement, ...extra: HTMLElement[]): HTMLLabelElement {
+    const row = document.createElement('label');
+    row.className = 'settings-row';
+    const text = document.createElement('span');
+    this.bindText(text, () => this.text.t(label));
+    row.append(text, control, ...extra);
+    return row;
+  }
+
+  /** Slider that applies while dragged and is saved (with the cloud copy) once released. */
+  private createRangeSetting(key: RangeSetting, label: TextKey, format: (value: number) => string): HTMLLabelElement {
+    const range = SETTINGS_RANGES[key];
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.min = String(range.min);
+    input.max = String(range.max);
+    input.step = String(range.step);
+    input.value = String(this.settings[key]);
+    const output = document.createElement('output');
+    output.textContent = format(this.settings[key]);
+
+    input.addEventListener('input', () => {
+      this.settings[key] = Number(input.value);
+      output.textContent = format(this.settings[key]);
+      this.applySettings();
+    });
+    input.addEventListener('change', () => {
+      void SaveService.storeWithCloud(this.saveData);
+    });
+    return this.createSettingRow(label, input, output);
+  }
+
+  private createChoiceSetting<K extends 'dragMode' | 'toasts'>(
+    key: K,
+    label: TextKey,
+    values: readonly GameSettings[K][],
+    optionLabel: (value: GameSettings[K]) => TextKey
+  ): HTMLLabelElement {
+    const select = document.createElement('select');
+    for (const value of values) {
+      const option = document.createElement('option');
+      option.value = value;
+      this.bindText(option, () => this.text.t(optionLabel(value)));
+      select.append(option);
+    }
+    select.value = this.settings[key];
+    select.addEventListener('change', () => {
+      this.settings[key] = select.value as GameSettings[K];
+      this.applySettings();
+      void SaveService.storeWithCloud(this.saveData);
+    });
+    return this.createSettingRow(label, select);
+  }
+
+  private createToggleSetting(key: 'reducedMotion' | 'screenEffects', label: TextKey): HTMLLabelElement {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = this.settings[key];
+    input.addEventListener('change', () => {
+      this.settings[key] = input.checked;
+      this.applySettings();
+      void SaveService.storeWithCloud(this.saveData);
+    });
+    return this.createSettingRow(label, input);
+  }
+
+  /** Pushes the current settings into audio and visuals. Steering speed is read when a run starts. */
+  private applySettings(): void {
+    this.audio.setVolumes({
+      master: this.settings.masterVolume,
+      music: this.settings.musicVolume,
+      sfx: this.settings.sfxVolume
+    });
+    this.shell.classList.toggle('reduced-motion', this.settings.reducedMotion);
+    if (this.settings.reducedMotion || !this.settings.screenEffects) {
+      this.hitFlash = 0;
+    }
+  }
+
+  private openSettings(): void {
+    this.state.pause('user');
+    this.settingsPanel.hidden = false;
+  }
+
+  private async changeLanguage(language: string): Promise<void> {
+    const text = await this.config.useLanguage(language);
+    document.documentElement.lang = text.language;
+    this.languageSelect.value = text.language;
+    this.settings.language = text.language;
+
+    this.textBindings.forEach((apply) => apply());
+    this.updatePauseButtonLabel();
+    this.renderMenu();
+    this.updateHud();
+    if (this.state.is('game_over') && !this.replay) {
+      this.updateGameOverText();
+    }
+    await SaveService.storeWithCloud(this.saveData);
+  }
+
   private setupCanvasResolution(): void {
     const rawDpr = typeof window !== 'undefined' ? (window.devicePixelRatio || 1) : 1;
     this.dpr = clamp(rawDpr, 1, 2);
@@ -294,10 +662,14 @@ export class Game {
     window.addEventListener('keydown', (event) => {
       const key = event.key.toLowerCase();
       this.keys.add(key);
+      if (import.meta.env.DEV && (key === '[' || key === ']' || key === '\\')) {
+        this.changeTimeScale(key === '[' ? -1 : key === ']' ? 1 : 0);
+        return;
+      }
       if (event.key === ' ') {
         event.preventDefault();
         if (!event.repeat) {
-          this.fireBribe();
+          this.requestBribe();
         }
       }
     });
@@ -309,6 +681,7 @@ export class Game {
     this.canvas.addEventListener('pointerdown', (event) => {
       this.pointerDrag = true;
       this.dragPointerId = event.pointerId;
+      this.resetDragOrigin(event.clientX);
       this.canvas.setPointerCapture(event.pointerId);
       this.onPointerMove(event);
     });
@@ -338,118 +711,135 @@ export class Game {
     });
 
     this.pauseButton.addEventListener('click', () => {
-      if (this.gameOver || !this.runActive) return;
+      if (!this.state.inRun) return;
 
-      if (this.paused) {
-        this.paused = false;
-        this.manualPaused = false;
-        this.pausedByUser = false;
+      if (this.state.pausedBy('user')) {
+        this.state.resume('user');
       } else {
-        this.paused = true;
-        this.manualPaused = true;
-        this.pausedByUser = true;
+        this.state.pause('user');
       }
-
-      this.updatePauseButtonLabel();
-      this.syncBannerVisibility();
-      this.showToast(this.paused ? this.uiText.paused : this.uiText.resumed);
+      this.showToast(this.text.t(this.state.is('paused') ? 'paused' : 'resumed'));
     });
 
     this.bribeButton.addEventListener('click', () => {
-      this.fireBribe();
+      this.requestBribe();
     });
 
-    this.startRunButton.addEventListener('click', async () => {
-      if (this.gameOver && this.shouldShowInterstitialOnRestart()) {
-        this.lastInterstitialAtMs = Date.now();
-        await this.platform.showInterstitial();
-      }
+    this.startRunButton.addEventListener('click', () => {
+      void this.startRunFromMenu(randomSeed(), false);
+    });
+
+    this.dailyRunButton.addEventListener('click', () => {
+      void this.startRunFromMenu(dailySeed(), true);
+    });
 
-      this.startNewRun();
+    this.respecAllButton.addEventListener('click', () => {
+      void this.respecUpgrades(null);
     });
 
     this.resetProgressButton.addEventListener('click', () => {
       void this.handleProgressReset();
     });
 
+    this.replayExportButton.addEventListener('click', () => {
+      void this.exportReplay();
+    });
+
+    this.replayPlayButton.addEventListener('click', () => {
+      this.importReplay();
+    });
+
+    this.languageSelect.addEventListener('change', () => {
+      void this.changeLanguage(this.languageSelect.value);
+    });
+
+    this.menuSettingsButton.addEventListener('click', () => {
+      this.openSettings();
+    });
+
+    this.hudSettingsButton.addEventListener('click', () => {
+      this.openSettings();
+    });
+
+    this.settingsCloseButton.addEventListener('click', () => {
+      this.settingsPanel.hidden = true;
+    });
+
+    this.eventLogButton.addEventListener('click', () => {
+      this.exportEventLog();
+    });
+
+    // The last chance to learn where players quit; nothing after this is guaranteed to run.
+    window.addEventListener('pagehide', () => {
+      if (this.state.inRun) {
+        this.trackRunEnd('quit', null);
+      }
+    });
+
     document.addEventListener('visibilitychange', () => {
       if (document.hidden) {
-        this.paused = true;
-        this.manualPaused = false;
-        this.pausedByUser = false;
         this.keys.clear();
-        this.updatePauseButtonLabel();
-        this.syncBannerVisibility();
-        this.showToast('Пауза (вкладка скрыта)');
-      } else if (this.runActive) {
-        this.paused = true;
-        this.manualPaused = true;
-        this.pausedByUser = false;
-        this.updatePauseButtonLabel();
-        this.syncBannerVisibility();
-        this.showToast('Вернулись. Нажми ПРОДОЛЖИТЬ');
+        this.state.pause('hidden');
+        this.showToast(this.text.t('pausedHidden'));
+        return;
+      }
+
+      // The player comes back to a paused run and resumes it when ready.
+      const inRun = this.state.inRun;
+      this.state.pause('user');
+      this.state.resume('hidden');
+      if (inRun) {
+        this.showToast(this.text.t('resumedVisible'));
       }
     });
 
     this.platform.onPause(() => {
-      this.paused = true;
-      this.pausedByUser = false;
-      this.audio.setMuted(true);
-      this.updatePauseButtonLabel();
-      this.syncBannerVisibility();
+      this.state.pause('platform');
     });
 
     this.platform.onResume(() => {
-      if (!this.manualPaused && !this.gameOver) {
-        this.paused = false;
-        this.audio.setMuted(false);
-        this.updatePauseButtonLabel();
-        this.syncBannerVisibility();
-      }
+      this.state.resume('platform');
     });
 
     this.reviveButton.addEventListener('click', async () => {
-      if (!this.gameOver) {
+      if (!this.state.is('game_over')) {
+        return;
+      }
+      this.state.transition('reviving');
+      const rewarded = await this.withAd('rewarded', 'revive', () => this.platform.showRewarded());
+      // The menu stays usable behind the ad, so a new run may have started in the meantime.
+      if (!this.state.is('reviving')) {
         return;
       }
-      const rewarded = await this.platform.showRewarded();
       if (!rewarded) {
+        this.state.transition('game_over');
         return;
       }
 
-      this.coinsBalance = 50;
-      this.gameOver = false;
-      this.paused = false;
-      this.manualPaused = false;
-      this.modal.hidden = true;
-
-      this.projectiles = [];
-      this.obstacles = [];
-      this.reviveInvulnMs = REVIVE_INVULN_MS;
-
-      this.updatePauseButtonLabel();
-      this.audio.setMuted(false);
-      this.syncBannerVisibility();
-      this.showToast(this.toastFrom('rewarded_revive', 'Второй шанс одобрен (1.2с иммунитет)'));
+      this.applyRevive();
+      this.recorder?.mark(REPLAY_FLAG_REVIVE);
+      this.showToast(this.toastFrom('rewarded_revive', this.text.t('reviveGranted')));
     });
 
     this.rewardX2Button.addEventListener('click', async () => {
-      if (!this.gameOver || this.gameOverScoreMultiplier === 2) {
+      if (!this.state.is('game_over') || this.gameOverScoreMultiplier === 2) {
         return;
       }
-      const rewarded = await this.platform.showRewarded();
-      if (!rewarded) {
+      const rewarded = await this.withAd('rewarded', 'reward_x2', () => this.platform.showRewarded());
+      // As with the revive: a run restarted or left behind the ad must not pay out for the old one.
+      if (!rewarded || !this.state.is('game_over')) {
         return;
       }
 
       this.gameOverScoreMultiplier = 2;
       this.rewardX2Button.disabled = true;
-      this.rewardX2Button.textContent = 'x2 ВЫРУЧКА АКТИВИРОВАНА';
+      this.rewardX2Button.textContent = this.rewardX2Label();
 
       const boostedScore = this.gameOverBaseScore * this.gameOverScoreMultiplier;
       if (boostedScore > this.saveData.bestScore) {
         this.saveData.bestScore = boostedScore;
       }
+      void this.submitScore(boostedScore);
 
       const bonus = this.sessionEarningsBase;
       if (bonus > 0) {
@@ -459,48 +849,427 @@ export class Game {
       this.updateGameOverText();
       this.renderMenu();
       await SaveService.storeWithCloud(this.saveData);
-      this.showToast('x2 выручка зафиксирована');
+      this.showToast(this.text.t('x2Granted'));
     });
 
     this.restartButton.addEventListener('click', () => {
+      // Also while a revive ad plays: the revive handler sees the state has moved on and drops its reward.
+      this.state.transition('menu');
+      this.finishRun();
       this.modal.hidden = true;
       this.menu.hidden = false;
-      this.runActive = false;
-      this.paused = true;
-      this.manualPaused = false;
-      this.pausedByUser = false;
       this.renderMenu();
+    });
+  }
+
+  /**
+   * Banner, audio mute, pause button and HUD follow the state machine rather than the handlers that move it, so every
+   * path into a state looks the same.
+   */
+  private bindStateHooks(): void {
+    this.state.onEnter('paused', () => this.recorder?.mark(REPLAY_FLAG_PAUSE));
+    this.state.onEnter('running', () => this.audio.playMusic('run'));
+    this.state.onEnter('game_over', () => this.audio.playMusic('menu'));
+    this.state.onChange(() => {
+      this.audio.setMuted(this.state.backgrounded);
+      this.updatePauseButtonLabel();
       this.syncBannerVisibility();
+      this.updateHud();
     });
   }
 
+  /** Holds the game for the length of an ad, whether or not the platform reports its own pause, and reports the outcome. */
+  private async withAd(format: AdFormat, placement: AdPlacement, show: () => Promise<boolean>): Promise<boolean> {
+    this.state.pause('ad');
+    try {
+      const completed = await show();
+      this.track({ type: 'ad_shown', format, placement, completed });
+      return completed;
+    } finally {
+      this.state.resume('ad');
+    }
+  }
+
+  /** Replays re-run recorded play, so they publish nothing. */
+  private track(event: GameEvent): void {
+    if (!this.replay) {
+      this.events.publish(event);
+    }
+  }
+
+  private trackRunEnd(outcome: 'died' | 'quit', cause: LossCause | null): void {
+    this.track({
+      type: 'run_end',
+      outcome,
+      cause,
+      score: Math.floor(this.sim.distance),
+      durationSec: Math.round(this.sim.elapsedSec),
+      revives: this.runRevives,
+      gates: this.sim.effects.map((effect) => effect.gateId)
+    });
+  }
+
+  private exportEventLog(): void {
+    const url = URL.createObjectURL(new Blob([this.eventLog.toJson()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `charons-gamble-events-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  private applyRevive(): void {
+    this.sim.revive();
+    this.modal.hidden = true;
+    this.menu.hidden = true;
+    this.state.enterRun();
+  }
+
+  private async exportReplay(): Promise<void> {
+    if (!this.lastReplayData) {
+      this.showToast(this.text.t('replayNothing'));
+      return;
+    }
+
+    const encoded = encodeReplay(this.lastReplayData);
+    this.replayBox.value = encoded;
+    this.replayBox.select();
+    try {
+      await navigator.clipboard?.writeText(encoded);
+      this.showToast(this.text.t('replayCopied'));
+    } catch {
+      // Clipboard may be blocked inside the platform iframe; the text stays selectable in the box.
+    }
+  }
+
+  private importReplay(): void {
+    let data: ReplayData;
+    try {
+      data = decodeReplay(this.replayBox.value);
+    } catch (error) {
+      this.showToast(`${this.text.t('replayInvalid')}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const replay = new ReplayPlayer(data);
+    this.startNewRun(data.seed, data.daily, data.upgrades, replay, data.steeringSpeed);
+    this.replay = replay;
+    this.recorder = null;
+    if (data.configHash !== this.gameplayHash) {
+      this.showToast(this.text.t('replayConfigMismatch'));
+    }
+  }
+
+  private handleReplayDeath(replay: ReplayPlayer): void {
+    if ((replay.peekFlags() & REPLAY_FLAG_REVIVE) !== 0) {
+      this.applyRevive();
+      return;
+    }
+    this.finishReplay(true);
+  }
+
+  private finishReplay(died: boolean): void {
+    const replay = this.replay;
+    if (!replay) {
+      return;
+    }
+
+    const score = Math.floor(this.sim.distance);
+    const matched = died && replay.done && score === replay.data.score;
+    this.replay = null;
+    this.state.transition('game_over');
+
+    this.summary = null;
+    this.runSummary.element.hidden = true;
+    this.modalText.hidden = false;
+    this.modalText.textContent = this.text.t('replaySummary', {
+      title: this.text.t('replayFinished'),
+      score,
+      recorded: replay.data.score,
+      verdict: this.text.t(matched ? 'replayMatched' : 'replayDesync')
+    });
+    this.reviveButton.hidden = true;
+    this.rewardX2Button.hidden = true;
+    this.modal.hidden = false;
+    this.menu.hidden = false;
+    this.renderMenu();
+  }
+
   private async handleProgressReset(): Promise<void> {
-    if (!window.confirm('Стереть весь прогресс и бухгалтерию?')) {
+    if (!window.confirm(this.text.t('confirmReset'))) {
       return;
     }
 
-    this.saveData = await SaveService.reset(this.config.upgrades);
+    this.saveData = await SaveService.reset(this.config.upgrades, this.saveData);
+    this.contracts.refresh(this.saveData);
     this.renderMenu();
     this.updateHud();
-    this.showToast('Прогресс сброшен');
+    this.showToast(this.text.t('progressReset'));
   }
 
   private renderMenu(): void {
-    this.menuWallet.textContent = `${this.uiText.lbl_wallet ?? 'Баланс (Оболы)'}: ${Math.floor(this.saveData.walletCoins)}`;
-    this.menuBest.textContent = `${this.uiText.lbl_best ?? 'Лучший рейс'}: ${this.saveData.bestScore}`;
+    this.menuWallet.textContent = `${this.text.t('lbl_wallet')}: ${Math.floor(this.saveData.walletCoins)}`;
+    this.menuBest.textContent = `${this.text.t('lbl_best')}: ${this.saveData.bestScore}`;
 
+    const current = upgradeStats(this.config.upgrades, this.saveData.upgrades);
     for (const branch of this.config.upgrades) {
       const level = this.saveData.upgrades[branch.id] ?? 0;
       const max = branch.levels.length;
       const row = this.shopRows[branch.id];
       const next = level < max ? branch.levels[level] : null;
 
-      row.level.textContent = `${this.uiText.lbl_level ?? 'Ур.'} ${level}/${max}`;
-      row.title.textContent = next?.title ?? 'Максимум';
-      row.desc.textContent = next?.shortDesc ?? 'Ветка полностью улучшена';
-      row.cost.textContent = next ? `${this.uiText.lbl_price ?? 'Цена'}: ${next.cost}` : 'Куплено всё';
+      row.level.textContent = `${this.text.t('lbl_level')} ${level}/${max}`;
+      row.title.textContent = next ? this.text.upgradeLevelTitle(branch, level) : this.text.t('lbl_max_level');
+      row.desc.textContent = next ? this.text.upgradeLevelDesc(branch, level) : this.text.t('lbl_branch_complete');
+      row.cost.textContent = next ? `${this.text.t('lbl_price')}: ${next.cost}` : this.text.t('lbl_all_bought');
       row.button.disabled = !next || this.saveData.walletCoins < next.cost;
+      row.respec.disabled = level === 0;
+
+      // Next level: the stats it changes, now and after. Maxed out: every stat the branch touches, as it stands.
+      const after = next ? upgradeStats(this.config.upgrades, { ...this.saveData.upgrades, [branch.id]: level + 1 }) : null;
+      const touched = UPGRADE_STAT_KEYS.filter((stat) => (next ? [next] : branch.levels).some((item) => item.effect[stat]));
+      row.stats.replaceChildren(...touched.map((stat) => this.statLine(stat, current[stat], after?.[stat])));
+    }
+    this.respecAllButton.disabled = !this.respec.quote(this.saveData, null);
+
+    this.renderContracts();
+    this.renderAchievements();
+    this.renderOffers();
+  }
+
+  private statLine(stat: UpgradeStat, value: number, next?: number): HTMLDivElement {
+    const line = document.createElement('div');
+    const shown = this.text.statValue(stat, value);
+    line.textContent = next === undefined
+      ? `${this.text.statName(stat)}: ${shown}`
+      : `${this.text.statName(stat)}: ${shown} → ${this.text.statValue(stat, next)}`;
+    return line;
+  }
+
+  private renderAchievements(): void {
+    this.achievementList.replaceChildren();
+    for (const view of this.achievements.list(this.saveData)) {
+      const item = document.createElement('div');
+      item.className = view.unlocked ? 'achievement-item unlocked' : 'achievement-item';
+      const head = document.createElement('div');
+      head.className = 'shop-head';
+      const title = document.createElement('strong');
+      title.textContent = `${view.unlocked ? '★' : '☆'} ${this.text.achievementTitle(view.achievement)}`;
+      const state = document.createElement('span');
+      state.textContent = view.unlocked ? this.text.t('lbl_unlocked') : `${view.progress}/${view.target}`;
+      head.append(title, state);
+      const desc = document.createElement('div');
+      desc.className = 'shop-desc';
+      const reward = view.achievement.reward
+        ? ` ${this.text.t('lbl_achievement_reward', { reward: view.achievement.reward })}`
+        : '';
+      desc.textContent = `${this.text.achievementDescription(view.achievement)}${reward}`;
+      item.append(head, desc);
+      this.achievementList.append(item);
+    }
+  }
+
+  private renderOffers(): void {
+    this.offerList.replaceChildren();
+    if (!this.prices || this.prices.size === 0) {
+      const note = document.createElement('p');
+      note.className = 'offer-note';
+      note.textContent = this.text.t(this.prices ? 'lbl_premium_unavailable' : 'lbl_premium_loading');
+      this.offerList.append(note);
+      return;
+    }
+
+    for (const offer of this.purchases.available(this.saveData)) {
+      const price = this.prices.get(offer.productId);
+      if (price === undefined) {
+        continue;
+      }
+      const item = document.createElement('div');
+      item.className = 'shop-item offer-item';
+      const title = document.createElement('strong');
+      title.textContent = this.text.offerTitle(offer);
+      const desc = document.createElement('div');
+      desc.className = 'shop-desc';
+      desc.textContent = this.text.offerDescription(offer);
+      const actions = document.createElement('div');
+      actions.className = 'shop-actions';
+      const button = document.createElement('button');
+      button.textContent = price;
+      button.disabled = this.purchaseInFlight;
+      button.addEventListener('click', () => {
+        void this.buyOffer(offer);
+      });
+      actions.append(button);
+      item.append(title, desc, actions);
+      this.offerList.append(item);
+    }
+  }
+
+  private async loadCatalog(): Promise<void> {
+    try {
+      const catalog = await this.platform.getCatalog(this.config.shopOffers.map((offer) => offer.productId));
+      this.prices = new Map(catalog.map((product) => [product.productId, product.price]));
+    } catch (error) {
+      console.warn('Payments catalog unavailable', error);
+      this.prices = new Map();
+    }
+    this.renderOffers();
+  }
+
+  private async buyOffer(offer: ShopOfferConfig): Promise<void> {
+    if (this.purchaseInFlight) {
+      return;
+    }
+    this.purchaseInFlight = true;
+    this.renderOffers();
+    try {
+      const purchase = await this.platform.purchase(offer.productId);
+      if (!purchase) {
+        this.showToast(this.text.t('purchaseCancelled'));
+        return;
+      }
+      await this.applyPurchases([purchase]);
+      this.showToast(this.text.t('offerBought', { offer: this.text.offerTitle(offer) }));
+    } finally {
+      this.purchaseInFlight = false;
+      this.renderOffers();
+    }
+  }
+
+  /** Purchases the platform still holds (the game closed before consuming them, or permanent ones). */
+  private async restorePurchases(): Promise<void> {
+    const pending = await this.platform.getPurchases();
+    if (pending.length > 0 && await this.applyPurchases(pending)) {
+      this.showToast(this.text.t('purchasesRestored'));
+    }
+  }
+
+  /**
+   * Grants, saves and only then consumes, so a crash in between leaves an unconsumed purchase whose token is already
+   * in the save: the next boot consumes it without granting twice.
+   */
+  private async applyPurchases(purchases: PlatformPurchase[]): Promise<boolean> {
+    const toConsume: string[] = [];
+    let changed = false;
+    for (const purchase of purchases) {
+      const offer = this.purchases.offerFor(purchase.productId);
+      if (!offer) {
+        console.warn(`Purchase of unknown product "${purchase.productId}" left unconsumed`);
+        continue;
+      }
+      changed = this.purchases.grant(this.saveData, offer, purchase.purchaseToken) || changed;
+      if (this.purchases.shouldConsume(offer)) {
+        toConsume.push(purchase.purchaseToken);
+      }
+    }
+
+    if (changed) {
+      this.renderMenu();
+      this.updateHud();
+      await SaveService.storeWithCloud(this.saveData);
+    }
+    for (const token of toConsume) {
+      await this.platform.consumePurchase(token);
+    }
+    return changed;
+  }
+
+  private renderContracts(): void {
+    this.contracts.refresh(this.saveData);
+    this.contractList.replaceChildren();
+
+    for (const view of this.contracts.list(this.saveData)) {
+      const item = document.createElement('div');
+      item.className = 'contract-item';
+      const head = document.createElement('div');
+      head.className = 'shop-head';
+      const title = document.createElement('span');
+      title.textContent = this.text.contractTitle(view.contract);
+      const count = document.createElement('span');
+      count.textContent = `${view.progress}/${view.target}`;
+      head.append(title, count);
+
+      const bar = document.createElement('div');
+      bar.className = 'contract-bar';
+      const fill = document.createElement('div');
+      fill.className = 'contract-fill';
+      fill.style.width = `${(view.progress / view.target) * 100}%`;
+      bar.append(fill);
+
+      const button = document.createElement('button');
+      button.textContent = view.claimed
+        ? this.text.t('lbl_claimed')
+        : `${this.text.t('btn_claim')} +${view.contract.reward}`;
+      button.disabled = view.claimed || !view.completed;
+      button.addEventListener('click', () => {
+        void this.claimContract(view.contract.id);
+      });
+
+      item.append(head, bar, button);
+      this.contractList.append(item);
+    }
+  }
+
+  private async claimContract(contractId: string): Promise<void> {
+    const reward = this.contracts.claim(this.saveData, contractId);
+    if (reward <= 0) {
+      return;
+    }
+
+    this.renderMenu();
+    await SaveService.storeWithCloud(this.saveData);
+    this.showToast(`${this.text.t('coinLabel')}: +${reward}`);
+  }
+
+  /** Feeds one gameplay counter to contracts and achievements. Replays never count. */
+  private recordCounter(counter: string, amount = 1): void {
+    if (this.replay) {
+      return;
+    }
+    for (const contract of this.contracts.record(this.saveData, counter, amount)) {
+      this.showToast(this.text.t('contractDone', { contract: this.text.contractTitle(contract) }));
     }
+    for (const achievement of this.achievements.record(this.saveData, counter, amount)) {
+      this.achievementQueue.push(achievement);
+    }
+    if (this.achievementTimer <= 0) {
+      this.showNextAchievement();
+    }
+  }
+
+  /** Unlocks get their own banner so they are not lost among run toasts; only "no messages" hides them. */
+  private showNextAchievement(): void {
+    const achievement = this.achievementQueue.shift();
+    if (!achievement || this.settings.toasts === 'none') {
+      this.achievementQueue.length = 0;
+      this.achievementBanner.hidden = true;
+      return;
+    }
+
+    const title = document.createElement('strong');
+    title.textContent = this.text.t('achievementUnlocked', { title: this.text.achievementTitle(achievement) });
+    const detail = document.createElement('span');
+    detail.textContent = achievement.reward
+      ? this.text.t('lbl_achievement_reward', { reward: achievement.reward })
+      : this.text.achievementDescription(achievement);
+    this.achievementBanner.replaceChildren(title, detail);
+    this.achievementBanner.hidden = false;
+    this.achievementTimer = ACHIEVEMENT_BANNER_SEC;
+  }
+
+  /** Counts the last run as finished once it can no longer be revived: on restart or when the next run starts. */
+  private finishRun(): void {
+    if (!this.runFinishPending) {
+      return;
+    }
+    this.runFinishPending = false;
+    this.recordCounter('runs_finished');
+    void SaveService.storeWithCloud(this.saveData);
+  }
+
+  private nextContractTitle(): string | undefined {
+    const view = this.contracts.list(this.saveData).find((item) => !item.completed);
+    return view ? this.text.contractTitle(view.contract) : undefined;
   }
 
   private async buyUpgrade(branchId: string): Promise<void> {
@@ -516,75 +1285,83 @@ export class Game {
     }
 
     if (this.saveData.walletCoins < next.cost) {
-      this.showToast('Недостаточно оболов в кошельке');
+      this.showToast(this.text.t('walletInsufficient'));
       return;
     }
 
     this.saveData.walletCoins -= next.cost;
     this.saveData.upgrades[branch.id] = level + 1;
+    this.track({ type: 'upgrade_bought', branch: branch.id, level: level + 1, cost: next.cost });
     this.renderMenu();
     await SaveService.storeWithCloud(this.saveData);
-    this.showToast(`Покупка: ${next.title}`);
-  }
-
-  private startNewRun(): void {
-    this.reset();
-    this.menu.hidden = true;
-    this.runActive = true;
-    this.paused = false;
-    this.manualPaused = false;
-    this.pausedByUser = false;
-    this.audio.setMuted(false);
-    this.applyMetaUpgradesForRun();
-    this.updatePauseButtonLabel();
-    this.syncBannerVisibility();
-    this.showToast(this.toastFrom('start_run', this.config.dailyContracts[0]?.title ?? this.uiText.title));
+    this.showToast(this.text.t('upgradeBought', { title: this.text.upgradeLevelTitle(branch, level) }));
   }
 
-  private applyMetaUpgradesForRun(): void {
-    const defense = this.currentLevelEffect('defense');
-    this.shieldMax = Math.max(0, Math.floor(defense.shieldStart ?? 0));
-    this.shieldCount = this.shieldMax;
-    this.shieldRegenSec = Math.max(0, defense.shieldRegenSec ?? 0);
-    this.shieldRegenTimer = this.shieldRegenSec;
-    this.obstacleDamageMult = Math.max(0.1, defense.obstacleDamageMult ?? 1);
-
-    const farm = this.currentLevelEffect('farm');
-    this.magnetMult = Math.max(1, farm.magnetMult ?? 1);
-    this.soulValueMult = Math.max(0.1, farm.soulValueMult ?? 1);
-    this.doubleSoulChance = clamp(farm.doubleSoulChance ?? 0, 0, 1);
+  /** One branch, or all of them when `branchId` is null, back to level 0 for a refund, after the player confirms it. */
+  private async respecUpgrades(branchId: string | null): Promise<void> {
+    const quote = this.respec.quote(this.saveData, branchId);
+    if (!quote || !(await this.respecDialog.ask(quote)) || !this.respec.apply(this.saveData, quote)) {
+      return;
+    }
 
-    const skills = this.currentLevelEffect('skills');
-    this.bribeCooldownMult = Math.max(0.2, skills.bribeCooldownMult ?? 1);
-    this.freeBribeEverySec = Math.max(0, skills.freeBribeEverySec ?? 0);
-    this.bribeSplashRadius = Math.max(0, skills.bribeSplashRadius ?? 0);
-    this.bribeCooldownLeftSec = 0;
-    this.freeBribeReady = false;
-    this.freeBribeTimerSec = this.freeBribeEverySec;
+    this.track({
+      type: 'upgrade_respec',
+      branches: quote.lines.map((line) => line.branch.id),
+      refund: quote.refund,
+      fee: quote.fee
+    });
+    this.renderMenu();
+    // The bumped `respecs` goes out with the refund, so a copy that misses this write cannot restore the old levels.
+    await SaveService.storeWithCloud(this.saveData);
+    this.showToast(this.text.t('upgradesRespecced', { refund: quote.refund }));
   }
 
-  private currentLevelEffect(branchId: string): UpgradeEffect {
-    const branch = this.config.upgrades.find((item) => item.id === branchId);
-    if (!branch) {
-      return {};
+  private async startRunFromMenu(seed: number, daily: boolean): Promise<void> {
+    if (this.state.is('game_over') && this.shouldShowInterstitialOnRestart()) {
+      this.lastInterstitialAtMs = Date.now();
+      await this.withAd('interstitial', 'restart', () => this.platform.showInterstitial());
     }
 
-    const level = this.saveData.upgrades[branch.id] ?? 0;
-    if (level <= 0) {
-      return {};
-    }
+    this.startNewRun(seed, daily);
+    this.track({ type: 'run_start', seed: formatSeed(seed), daily, upgrades: { ...this.saveData.upgrades } });
+  }
 
-    const selectedLevel = branch.levels[Math.min(level, branch.levels.length) - 1] as UpgradeLevelConfig;
-    return selectedLevel.effect;
+  private startNewRun(
+    seed: number,
+    daily: boolean,
+    upgrades: Record<string, number> = this.saveData.upgrades,
+    input: InputSource = this.liveInput,
+    steeringSpeed = this.settings.steeringSpeed
+  ): void {
+    this.finishRun();
+    this.sim = this.createSimulation(seed, upgrades, input, steeringSpeed);
+    this.fxRng = this.sim.rng.fork(FX_RNG_SALT);
+    this.dailyRun = daily;
+    this.replay = null;
+    this.recorder = new ReplayRecorder(seed, daily, this.gameplayHash, upgrades, steeringSpeed);
+    this.runKey = `${formatSeed(seed)}-${Date.now().toString(36)}`;
+    this.reset();
+    this.menu.hidden = true;
+    this.contracts.beginRun();
+    this.achievements.beginRun();
+    this.state.enterRun();
+    this.showToast(this.toastFrom('start_run', this.nextContractTitle() ?? this.text.t('title')), false);
   }
 
+  /** Refreshes the summary after the x2 reward or a language change; the count-up is not replayed. */
   private updateGameOverText(): void {
-    const finalScore = this.gameOverBaseScore * this.gameOverScoreMultiplier;
-    const totalEarnings = this.sessionEarningsBase * this.gameOverScoreMultiplier;
-    this.modalText.textContent = `${this.uiText.gameOver}. Score: ${finalScore}. Best: ${this.saveData.bestScore}. Выручка: +${totalEarnings}`;
+    if (!this.summary) {
+      return;
+    }
+    this.summary.multiplier = this.gameOverScoreMultiplier;
+    this.summary.best = this.saveData.bestScore;
+    this.runSummary.update(this.summary);
   }
 
   private shouldShowInterstitialOnRestart(): boolean {
+    if (this.purchases.hasNoInterstitials(this.saveData)) {
+      return false;
+    }
     if (this.deathCount <= 0 || this.deathCount % 2 !== 0) {
       return false;
     }
@@ -610,394 +1387,369 @@ export class Game {
     this.dragPointerId = null;
   }
 
+  /** `absolute` scales the finger's distance from the centre line, `relative` the distance dragged since pointerdown. */
   private onPointerMove(event: PointerEvent): void {
+    if (this.dragOrigin.mirrored !== this.sim.controlsMirrored) {
+      this.resetDragOrigin(event.clientX);
+    }
     const rect = this.canvas.getBoundingClientRect();
-    const normalizedX = (event.clientX - rect.left) / rect.width;
-    this.player.x = clamp(normalizedX * WIDTH, this.player.w / 2, WIDTH - this.player.w / 2);
+    const sensitivity = this.settings.dragSensitivity;
+    const targetX = this.settings.dragMode === 'relative'
+      ? this.dragOrigin.boatX + ((event.clientX - this.dragOrigin.clientX) / rect.width) * WIDTH * sensitivity
+      : WIDTH / 2 + (((event.clientX - rect.left) / rect.width) * WIDTH - WIDTH / 2) * sensitivity;
+    const halfW = this.sim.player.w / 2;
+    this.pendingDragX = quantizeDragX(clamp(targetX, halfW, WIDTH - halfW));
   }
 
-  private updatePauseButtonLabel(): void {
-    this.pauseButton.textContent = this.paused ? 'ПРОДОЛЖИТЬ' : 'ПАУЗА';
+  /** While controls are mirrored the simulation flips `dragX`, so relative drags start from the flipped boat position. */
+  private resetDragOrigin(clientX: number): void {
+    const mirrored = this.sim.controlsMirrored;
+    this.dragOrigin = { clientX, boatX: mirrored ? WIDTH - this.sim.player.x : this.sim.player.x, mirrored };
   }
 
-  start(): void {
-    this.lastTime = performance.now();
-    requestAnimationFrame((ts) => this.loop(ts));
+  private requestBribe(): void {
+    if (!this.state.is('running') || this.replay) return;
+    this.bribeQueued = true;
   }
 
-  private loop(timestamp: number): void {
-    const dt = Math.min((timestamp - this.lastTime) / 1000, 0.05);
-    this.lastTime = timestamp;
-
-    if (!this.paused && !this.gameOver && this.runActive) {
-      this.update(dt);
-    }
-
-    this.render();
-    requestAnimationFrame((ts) => this.loop(ts));
+  private sampleInput(dt: number): InputFrame {
+    const left = this.keys.has('arrowleft') || this.keys.has('a');
+    const right = this.keys.has('arrowright') || this.keys.has('d');
+    const frame: InputFrame = {
+      dt: quantizeDt(dt),
+      move: left === right ? 0 : left ? -1 : 1,
+      dragX: this.pendingDragX,
+      bribe: this.bribeQueued
+    };
+    this.pendingDragX = null;
+    this.bribeQueued = false;
+    this.recorder?.push(frame);
+    return frame;
   }
 
-  private update(dt: number): void {
-    this.elapsedSec += dt;
-    this.distance += this.forwardSpeed() * dt;
-    this.reviveInvulnMs = Math.max(0, this.reviveInvulnMs - dt * 1000);
-    this.bribeCooldownLeftSec = Math.max(0, this.bribeCooldownLeftSec - dt);
-
-    if (this.freeBribeEverySec > 0 && !this.freeBribeReady) {
-      this.freeBribeTimerSec -= dt;
-      if (this.freeBribeTimerSec <= 0) {
-        this.freeBribeReady = true;
-      }
-    }
-
-    if (this.shieldRegenSec > 0 && this.shieldCount < this.shieldMax) {
-      this.shieldRegenTimer -= dt;
-      if (this.shieldRegenTimer <= 0) {
-        this.shieldCount += 1;
-        this.shieldRegenTimer = this.shieldRegenSec;
-      }
-    }
-
-    const moveDir = (this.keys.has('arrowleft') || this.keys.has('a') ? -1 : 0) + (this.keys.has('arrowright') || this.keys.has('d') ? 1 : 0);
-    this.player.x = clamp(this.player.x + moveDir * this.player.speed * dt, this.player.w / 2, WIDTH - this.player.w / 2);
-
-    const drain = this.currentDrainRate() * this.effectMultiplier('drainMultiplier') * dt;
-    this.coinsBalance -= drain;
-
-    this.spawnAndMove(dt);
-    this.handleCollisions();
-    this.updateEffects(dt);
-
-    if (this.toastTimer > 0) {
-      this.toastTimer -= dt;
-      if (this.toastTimer <= 0) {
-        this.toast.classList.remove('active');
-      }
-    }
-
-    if (this.coinsBalance <= 0) {
-      this.triggerGameOver();
-    }
-
-    this.updateHud();
+  private createSimulation(
+    seed: number,
+    upgrades: Record<string, number>,
+    input: InputSource,
+    steeringSpeed: number
+  ): RunSimulation {
+    const sim = new RunSimulation(this.config, { seed, upgrades, input, steeringSpeed });
+    sim.onEvent((event) => this.handleRunEvent(event));
+    return sim;
   }
 
-  private spawnAndMove(dt: number): void {
-    const scrollSpeed = this.forwardSpeed();
-
-    this.obstacleSpawnTimer -= dt;
-    if (this.obstacleSpawnTimer <= 0) {
-      this.obstacleSpawnTimer = rand(0.8, 1.4);
-      const template = this.config.obstacles[Math.floor(Math.random() * this.config.obstacles.length)] as ObstacleConfig;
-      this.obstacles.push({
-        x: rand(template.radius, WIDTH - template.radius),
-        y: -40,
-        r: template.radius,
-        damage: template.damage,
-        color: template.color
-      });
-    }
-
-    this.coinSpawnTimer -= dt;
-    if (this.coinSpawnTimer <= 0) {
-      this.coinSpawnTimer = rand(0.45, 0.9);
-      this.coins.push({
-        x: rand(24, WIDTH - 24),
-        y: -20,
-        r: 10,
-        value: this.config.economy.pickupValue
-      });
+  private handleRunEvent(event: RunEvent): void {
+    switch (event.type) {
+      case 'coin_pickup':
+        this.track({ type: 'pickup', value: event.value, souls: event.souls });
+        this.recordCounter('souls_collected', event.souls);
+        this.recordCounter('obols_collected', Math.round(event.value));
+        this.audio.playSfx('coin');
+        this.showToast(`${this.toastFrom('pick_soul', this.text.t('coinPickup'))} +${Math.round(event.value)}`, false);
+        break;
+      case 'collision':
+        this.track({ type: 'collision', obstacleId: event.obstacleId, penalty: event.penalty });
+        this.audio.playSfx('hit');
+        if (this.settings.screenEffects && !this.settings.reducedMotion) {
+          this.hitFlash = HIT_FLASH_SEC;
+        }
+        this.showToast(this.toastFrom('hit_obstacle', this.text.t('hitObstacle')), false);
+        break;
+      case 'shield_absorbed':
+        this.track({ type: 'shield_absorbed', obstacleId: event.obstacleId });
+        this.audio.playSfx('shield');
+        this.showToast(this.text.t('shieldAbsorbed'), false);
+        break;
+      case 'bribe_fired':
+        this.track({ type: 'bribe_fired', free: event.free, cost: event.cost });
+        this.audio.playSfx('bribe');
+        if (event.free) {
+          this.showToast(this.text.t('freeBribe'), false);
+        } else {
+          this.showToast(this.toastFrom('bribe_shot', this.text.plural('paidBribe', event.cost)), false);
+        }
+        break;
+      case 'bribe_denied':
+        this.showToast(this.text.t('insufficientCoins'));
+        break;
+      case 'bribe_kill':
+        this.track({ type: 'bribe_kill', obstacleIds: event.obstacleIds });
+        this.recordCounter('bribe_kills', event.obstacleIds.length);
+        for (const obstacleId of event.obstacleIds) {
+          this.recordCounter(`bribe_kills:${obstacleId}`);
+        }
+        break;
+      case 'gate_offered':
+        this.track({ type: 'gate_offered', left: event.left.id, right: event.right.id });
+        break;
+      case 'gate_chosen':
+        this.track({ type: 'gate_chosen', gate: event.gate.id, applied: event.applied });
+        this.onGateChosen(event.gate, event.applied);
+        break;
+      case 'game_over':
+        this.audio.playSfx('game_over');
+        if (this.replay) {
+          this.handleReplayDeath(this.replay);
+        } else {
+          this.triggerGameOver(event.cause);
+        }
+        break;
+      case 'revived':
+        this.runRevives += 1;
+        this.track({ type: 'revive' });
+        this.audio.playSfx('revive');
+        break;
+      case 'boss_appeared':
+        this.audio.playSfx('gate');
+        this.showToast(this.text.t('bossAppeared', { boss: this.text.bossName(event.boss) }));
+        break;
+      case 'boss_head_hit':
+        if (event.hpLeft === 0) {
+          this.audio.playSfx('shield');
+          this.showToast(this.text.t('bossHeadPaid'), false);
+        }
+        break;
+      case 'boss_defeated':
+        this.audio.playSfx('revive');
+        this.recordCounter('bosses_defeated');
+        this.recordCounter(`bosses_defeated:${event.boss.id}`);
+        this.showToast(this.text.t('bossDefeated', {
+          boss: this.text.bossName(event.boss),
+          obols: event.obols,
+          reward: this.text.bossRewardDescription(event.boss)
+        }));
+        break;
+      case 'boss_escaped':
+        this.showToast(this.text.t('bossEscaped', { boss: this.text.bossName(event.boss) }));
+        break;
     }
+  }
 
-    this.gateSpawnTimer -= dt;
-    if (this.gateSpawnTimer <= 0) {
-      this.gateSpawnTimer = this.config.economy.gateIntervalSec;
-      const [left, right] = this.pickTwoGates();
-      this.gates.push({ y: -60, left, right, width: 170, chosen: false });
+  private onGateChosen(gate: GateConfig, applied: boolean): void {
+    if (!applied) {
+      this.showToast(this.text.t('gateAtLimit', { gate: this.text.gateName(gate) }));
+      return;
     }
 
-    this.obstacles.forEach((obstacle) => (obstacle.y += scrollSpeed * dt));
-    this.coins.forEach((coin) => (coin.y += scrollSpeed * dt));
-    this.gates.forEach((gate) => (gate.y += scrollSpeed * dt));
-    this.projectiles.forEach((projectile) => (projectile.y -= projectile.speed * dt));
+    this.audio.playSfx('gate');
+    this.recordCounter('gates_passed');
+    this.recordCounter(`gates_passed:${gate.id}`);
 
-    this.obstacles = this.obstacles.filter((entity) => entity.y < HEIGHT + 40);
-    this.coins = this.coins.filter((entity) => entity.y < HEIGHT + 30);
-    this.gates = this.gates.filter((entity) => entity.y < HEIGHT + 80);
-    this.projectiles = this.projectiles.filter((entity) => entity.y > -20);
+    const msg = this.text.t('gateChosen', { gate: this.text.gateName(gate) });
+    this.showToast(gate.toast ? this.toastFrom(gate.toast, msg) : msg, false);
   }
 
-  private pickTwoGates(): [GateConfig, GateConfig] {
-    const shuffled = [...this.config.gates].sort(() => Math.random() - 0.5);
-    return [shuffled[0] as GateConfig, shuffled[1] as GateConfig];
+  private updatePauseButtonLabel(): void {
+    this.pauseButton.textContent = this.text.t(this.state.is('running') ? 'btn_pause' : 'btn_resume');
   }
 
-  private gateRects(gate: GatePair): { leftX: number; rightX: number; width: number } {
-    const center = WIDTH / 2;
-    const leftX = center - GATE_GAP - gate.width;
-    const rightX = center + GATE_GAP;
-    return { leftX, rightX, width: gate.width };
+  private rewardX2Label(): string {
+    return this.text.t(this.gameOverScoreMultiplier === 2 ? 'lbl_reward_x2_active' : 'btn_reward_x2');
   }
 
-  private handleCollisions(): void {
-    const boatBody = { x: this.player.x, y: this.player.y, r: this.player.w * 0.45 };
-    const magnetRadius = BASE_MAGNET_RADIUS * this.magnetMult;
-    const magnetRadiusSq = magnetRadius * magnetRadius;
-
-    this.coins = this.coins.filter((coin) => {
-      const inMagnet = distanceSq(boatBody, coin) <= magnetRadiusSq;
-      if (!inMagnet && !intersects(boatBody, coin)) {
-        return true;
-      }
-
-      let value = coin.value * this.soulValueMult * this.effectMultiplier('pickupMultiplier');
-      this.soulsCollected += 1;
-
-      if (Math.random() < this.doubleSoulChance) {
-        value += coin.value * this.soulValueMult * this.effectMultiplier('pickupMultiplier');
-        this.soulsCollected += 1;
-      }
-
-      this.coinsBalance += value;
-      this.showToast(`${this.toastFrom('pick_soul', this.uiText.coinPickup)} +${Math.round(value)}`);
-      return false;
-    });
-
-    this.obstacles = this.obstacles.filter((obstacle) => {
-      if (!intersects(boatBody, obstacle)) {
-        return true;
-      }
+  start(): void {
+    this.lastTime = performance.now();
+    requestAnimationFrame((ts) => this.loop(ts));
+  }
 
-      if (this.reviveInvulnMs <= 0) {
-        if (this.shieldCount > 0) {
-          this.shieldCount -= 1;
-          this.shieldRegenTimer = this.shieldRegenSec;
-          this.showToast('Щит поглотил урон');
-        } else {
-          const penalty = this.config.economy.collisionPenalty
-            * obstacle.damage
-            * this.effectMultiplier('collisionPenaltyMultiplier')
-            * this.obstacleDamageMult;
-          this.coinsBalance -= penalty;
-          this.showToast(this.toastFrom('hit_obstacle', this.uiText.hitObstacle));
-        }
-      }
+  private get running(): boolean {
+    return this.state.is('running');
+  }
 
-      return false;
-    });
+  /**
+   * The simulation advances in fixed `SIM_STEP_SEC` steps, as many as the frame's (time-scaled) duration holds, so it
+   * plays the same at 30, 60 or 144 Hz. Rendering interpolates between the last two steps.
+   */
+  private loop(timestamp: number): void {
+    const frameSec = clamp((timestamp - this.lastTime) / 1000, 0, MAX_FRAME_SEC);
+    this.lastTime = timestamp;
 
-    for (const gate of this.gates) {
-      if (gate.chosen) continue;
-      if (Math.abs(gate.y - this.player.y) > GATE_HEIGHT) continue;
-
-      const { leftX, rightX, width } = this.gateRects(gate);
-      const leftCenter = leftX + width * 0.5;
-      const rightCenter = rightX + width * 0.5;
-      const inLeftRect = this.player.x >= leftX && this.player.x <= leftX + width;
-      const inRightRect = this.player.x >= rightX && this.player.x <= rightX + width;
-
-      if (inLeftRect) {
-        gate.chosen = true;
-        this.applyGate(gate.left);
-      } else if (inRightRect) {
-        gate.chosen = true;
-        this.applyGate(gate.right);
-      } else {
-        const distanceLeft = Math.abs(this.player.x - leftCenter);
-        const distanceRight = Math.abs(this.player.x - rightCenter);
-        gate.chosen = true;
-        this.applyGate(distanceLeft <= distanceRight ? gate.left : gate.right);
+    // Runs on wall time: most unlocks land on the game-over screen, where `update` is not called.
+    if (this.achievementTimer > 0) {
+      this.achievementTimer -= frameSec;
+      if (this.achievementTimer <= 0) {
+        this.showNextAchievement();
       }
     }
 
-    this.projectiles = this.projectiles.filter((projectile) => {
-      const targetIndex = this.obstacles.findIndex((obstacle) => intersects(projectile, obstacle));
-      if (targetIndex === -1) {
-        return true;
-      }
-
-      const hit = this.obstacles[targetIndex] as ObstacleEntity;
-      this.obstacles.splice(targetIndex, 1);
-
-      if (this.bribeSplashRadius > 0) {
-        const splashSq = this.bribeSplashRadius * this.bribeSplashRadius;
-        this.obstacles = this.obstacles.filter((obstacle) => distanceSq(obstacle, hit) > splashSq);
-      }
-
-      return false;
-    });
-  }
-
-  private applyGate(gate: GateConfig): void {
-    if (gate.permanent && gate.id === 'DEBT') {
-      const hasPermanentDebt = this.effects.some((effect) => effect.permanent && effect.gateId === 'DEBT');
-      if (hasPermanentDebt) {
-        this.showToast('Долг уже оформлен');
-        return;
+    if (this.running) {
+      const steps = this.timestep.advance(frameSec * this.timeScale);
+      // A step can end the run or open a modal; the remaining steps wait for the next resume.
+      for (let i = 0; i < steps && this.running; i += 1) {
+        this.update(SIM_STEP_SEC);
       }
+      this.renderAlpha = this.timestep.alpha;
+      this.updateHud();
+    } else {
+      // Resuming starts from a clean step, not from time left over before the pause.
+      this.timestep.reset();
     }
 
-    const duration = gate.permanent ? 0 : (gate.durationSec || this.config.economy.gateDurationSec);
-    this.effects.push({
-      gateId: gate.id,
-      effect: gate.effects,
-      permanent: Boolean(gate.permanent),
-      remainingSec: duration
-    });
-
-    const msg = this.uiText.gateChosen.replace('{gate}', gate.name);
-    const gateToastKey = gate.id === 'DEBT'
-      ? 'gate_debt'
-      : (gate.id === 'MERCY' || gate.id === 'PLENTY' ? 'gate_safe' : 'gate_gamble');
-    this.showToast(this.toastFrom(gateToastKey, msg));
-  }
-
-  private updateEffects(dt: number): void {
-    this.effects = this.effects.filter((effect) => {
-      if (effect.permanent) {
-        return true;
-      }
-      effect.remainingSec -= dt;
-      return effect.remainingSec > 0;
-    });
+    this.render();
+    requestAnimationFrame((ts) => this.loop(ts));
   }
 
-  private fireBribe(): void {
-    if (this.paused || this.gameOver || !this.runActive) return;
-    if (this.bribeCooldownLeftSec > 0) return;
-
-    const randomFreeShot = Math.random() < this.config.economy.freeBribeChance;
-    const timerFreeShot = this.freeBribeReady;
-    const freeShot = randomFreeShot || timerFreeShot;
-
-    if (!freeShot && this.coinsBalance < this.config.economy.bribeShotCost) {
-      this.showToast(this.uiText.insufficientCoins);
+  private update(dt: number): void {
+    if (!this.sim.step(dt)) {
+      this.finishReplay(false);
       return;
     }
 
-    if (timerFreeShot) {
-      this.freeBribeReady = false;
-      this.freeBribeTimerSec = this.freeBribeEverySec;
+    this.hitFlash = Math.max(0, this.hitFlash - dt);
+    if (this.sim.coinsBalance > 0 && this.sim.coinsBalance <= 1) {
+      this.recordCounter('seconds_at_one_obol', dt);
     }
-
-    if (!freeShot) {
-      const cost = this.config.economy.bribeShotCost;
-      this.coinsBalance -= cost;
-      const fallback = `Подкуп стражи: -${cost} обол`;
-      this.showToast(this.toastFrom('bribe_shot', cost === 1 ? this.uiText.paidBribe : fallback));
-    } else {
-      this.showToast(this.uiText.freeBribe);
+    if (this.toastTimer > 0) {
+      this.toastTimer -= dt;
+      if (this.toastTimer <= 0) {
+        this.toast.classList.remove('active');
+      }
     }
+  }
 
-    this.bribeCooldownLeftSec = BASE_BRIBE_COOLDOWN_SEC * this.bribeCooldownMult;
+  /** Dev-only slow motion and fast-forward; steps stay fixed, so runs and replays are unaffected. */
+  private changeTimeScale(direction: -1 | 0 | 1): void {
+    const index = DEBUG_TIME_SCALES.indexOf(this.timeScale);
+    const next = direction === 0 ? 1 : DEBUG_TIME_SCALES[clamp(index + direction, 0, DEBUG_TIME_SCALES.length - 1)];
+    this.timeScale = next ?? 1;
+  }
 
-    this.projectiles.push({
-      x: this.player.x,
-      y: this.player.y - 20,
-      r: 8,
-      speed: 450
-    });
+  /** Position for drawing: between the start and the end of the last step, as far as the frame is past it. */
+  private lerp(previous: number, current: number): number {
+    return previous + (current - previous) * this.renderAlpha;
   }
 
-  private triggerGameOver(): void {
-    const earnings = Math.max(0, Math.floor(this.distance / 10) + this.soulsCollected + Math.floor(Math.max(0, this.coinsBalance) / 10));
+  private triggerGameOver(cause: LossCause): void {
+    this.trackRunEnd('died', cause);
+    const earnings = this.sim.earnings();
     this.sessionEarningsBase = earnings;
     this.saveData.walletCoins += earnings;
+    const distance = Math.floor(this.sim.distance);
+    this.recordCounter('distance', distance - this.recordedDistance);
+    this.recordedDistance = distance;
+    this.runFinishPending = true;
 
-    this.gameOver = true;
-    this.paused = true;
-    this.pausedByUser = false;
-    this.runActive = false;
-    this.updatePauseButtonLabel();
-    this.coinsBalance = 0;
+    this.state.transition('game_over');
     this.deathCount += 1;
 
-    this.gameOverBaseScore = Math.floor(this.distance);
+    this.gameOverBaseScore = Math.floor(this.sim.distance);
     this.gameOverScoreMultiplier = 1;
+    this.lastReplayData = this.recorder?.toData(this.gameOverBaseScore) ?? null;
     this.rewardX2Button.disabled = false;
-    this.rewardX2Button.textContent = 'СМОТРЕТЬ РЕКЛАМУ (x2 ВЫРУЧКУ)';
+    this.rewardX2Button.textContent = this.rewardX2Label();
+    // The revive and x2 offers wait until the player has seen what the run earned.
+    this.reviveButton.hidden = true;
+    this.rewardX2Button.hidden = true;
 
+    const records: RunSummary['records'] = [];
     if (this.gameOverBaseScore > this.saveData.bestScore) {
+      if (this.saveData.bestScore > 0) {
+        records.push('score');
+      }
       this.saveData.bestScore = this.gameOverBaseScore;
     }
-
-    this.updateGameOverText();
-    this.showToast(this.toastFrom('game_over', this.uiText.gameOver));
+    records.push(...updateRecords(this.saveData.records, {
+      bestEarnings: earnings,
+      mostSouls: this.sim.soulsCollected,
+      longestRunSec: Math.floor(this.sim.elapsedSec)
+    }));
+
+    this.summary = {
+      score: this.gameOverBaseScore,
+      best: this.saveData.bestScore,
+      multiplier: 1,
+      earnings: this.sim.earningsBreakdown(),
+      // Copied: a revive keeps the same simulation going.
+      ledger: { gained: { ...this.sim.ledger.gained }, lost: { ...this.sim.ledger.lost } },
+      gates: [...this.sim.gateLog],
+      cause,
+      records,
+      daily: this.dailyRun,
+      seed: formatSeed(this.sim.rng.seed)
+    };
+    this.modalText.hidden = true;
+    this.runSummary.element.hidden = false;
+    this.runSummary.show(this.summary, !this.settings.reducedMotion, () => {
+      if (this.state.is('game_over')) {
+        this.reviveButton.hidden = false;
+        this.rewardX2Button.hidden = false;
+      }
+    });
+    void this.submitScore(this.gameOverBaseScore);
+    this.showToast(this.toastFrom('game_over', this.text.t('gameOver')), false);
     this.modal.hidden = false;
     this.menu.hidden = false;
-    this.audio.setMuted(true);
-    this.syncBannerVisibility();
     this.renderMenu();
     void SaveService.storeWithCloud(this.saveData);
   }
 
   private updateHud(): void {
-    const shieldText = this.shieldMax > 0 ? ` | Щит: ${this.shieldCount}/${this.shieldMax}` : '';
-    this.coinPill.textContent = `${this.uiText.coinLabel}: ${Math.max(0, Math.floor(this.coinsBalance))}${shieldText}`;
-    this.scorePill.textContent = `Score: ${Math.floor(this.distance)} / Best: ${this.saveData.bestScore}`;
+    const sim = this.sim;
+    // Gate shields can exceed the upgrade maximum, or exist without the upgrade at all.
+    const shieldText = sim.shieldMax > 0 || sim.shieldCount > 0 ? ` | ${this.text.t('lbl_shield')}: ${sim.shieldCount}/${sim.shieldMax}` : '';
+    const ended = this.state.is('game_over') || this.state.is('reviving');
+    const balance = ended ? 0 : sim.coinsBalance;
+    this.coinPill.textContent = `${this.text.t('coinLabel')}: ${Math.max(0, Math.floor(balance))}${shieldText}`;
+    const replayMark = this.replay ? '▶ ' : '';
+    this.scorePill.textContent = replayMark + this.text.t('hudScore', { score: Math.floor(sim.distance), best: this.saveData.bestScore });
 
     // Bribe button UX: show cost/free/cooldown + disable when unavailable.
-    const cost = this.config.economy.bribeShotCost;
-    const cooldown = this.bribeCooldownLeftSec;
-    const canAfford = this.coinsBalance >= cost;
-    const canFire = this.runActive && !this.paused && !this.gameOver && cooldown <= 0 && (this.freeBribeReady || canAfford);
+    const cost = sim.bribeCost;
+    const cooldown = sim.bribeCooldownLeftSec;
+    const canAfford = sim.coinsBalance >= cost;
+    const canFire = this.state.is('running') && !this.replay && cooldown <= 0 && (sim.freeBribeReady || canAfford);
     this.bribeButton.disabled = !canFire;
 
-    if (!this.runActive) {
-      this.bribeButton.textContent = 'ОТКУП';
+    if (!this.state.inRun) {
+      this.bribeButton.textContent = this.text.t('btn_bribe');
       return;
     }
 
     if (cooldown > 0) {
-      this.bribeButton.textContent = `ОТКУП (КД ${cooldown.toFixed(1)}с)`;
+      this.bribeButton.textContent = this.text.t('btn_bribe_cooldown', { sec: cooldown.toFixed(1) });
       return;
     }
 
-    if (this.freeBribeReady) {
-      this.bribeButton.textContent = 'ОТКУП (БЕСПЛ)';
+    if (sim.freeBribeReady || cost === 0) {
+      this.bribeButton.textContent = this.text.t('btn_bribe_free');
       return;
     }
 
-    if (this.freeBribeEverySec > 0) {
-      const eta = Math.max(0, Math.ceil(this.freeBribeTimerSec));
-      this.bribeButton.textContent = `ОТКУП (−${cost} / БЕСПЛ через ${eta}с)`;
+    if (sim.freeBribeEverySec > 0) {
+      const eta = Math.max(0, Math.ceil(sim.freeBribeTimerSec));
+      this.bribeButton.textContent = this.text.t('btn_bribe_timer', { cost, eta });
       return;
     }
 
-    this.bribeButton.textContent = `ОТКУП (−${cost} обол)`;
+    this.bribeButton.textContent = this.text.plural('btn_bribe_cost', cost);
   }
 
-  private currentDrainRate(): number {
-    const tiers = [...this.config.economy.coinDrainTiers].sort((a, b) => a.fromSec - b.fromSec);
-    let current = tiers[0]?.rate ?? 0;
-    for (const tier of tiers) {
-      if (this.elapsedSec >= tier.fromSec) {
-        current = tier.rate;
-      }
-    }
-    return current;
+  private async submitScore(score: number): Promise<void> {
+    await this.platform.submitScore(score, this.runKey);
+    await this.refreshLeaderboards();
   }
 
-  private effectMultiplier(key: keyof GateEffect): number {
-    return this.effects.reduce((acc, effect) => {
-      const value = effect.effect[key];
-      if (typeof value !== 'number') {
-        return acc;
+  private async refreshLeaderboards(): Promise<void> {
+    const request = ++this.leaderboardRequest;
+    this.menuLeaderboard.setLoading();
+    this.modalLeaderboard.setLoading();
+    try {
+      const snapshot = await this.platform.fetchLeaderboard(LEADERBOARD_QUERY);
+      if (request === this.leaderboardRequest) {
+        this.menuLeaderboard.setSnapshot(snapshot);
+        this.modalLeaderboard.setSnapshot(snapshot);
       }
-      return acc * value;
-    }, 1);
-  }
-
-  private forwardSpeed(): number {
-    return 150 * this.effectMultiplier('speedMultiplier');
-  }
-
-  private firstGateDelaySec(): number {
-    return this.config.economy.firstGateDelaySec ?? 18;
+    } catch (error) {
+      console.warn('Leaderboard unavailable', error);
+      if (request === this.leaderboardRequest) {
+        this.menuLeaderboard.setError();
+        this.modalLeaderboard.setError();
+      }
+    }
   }
 
   private syncBannerVisibility(): void {
-    if (this.gameOver || this.pausedByUser || !this.runActive) {
+    if (!this.state.inRun || this.state.pausedBy('user')) {
       void this.platform.showBanner();
       return;
     }
@@ -1006,55 +1758,32 @@ export class Game {
   }
 
   private toastFrom(key: string, fallback: string): string {
-    const map = this.uiText.ui_text?.toasts;
-    const arr = (map && (map[key] ?? map.default)) as string[] | undefined;
-    if (Array.isArray(arr) && arr.length) return arr[(Math.random() * arr.length) | 0] as string;
+    const arr = this.text.toasts(key);
+    if (arr?.length) return this.fxRng.pick(arr);
     return fallback;
   }
 
-  private showToast(message: string): void {
+  /** Flavour lines (`important = false`) are the first to go when the player turns toasts down. */
+  private showToast(message: string, important = true): void {
+    if (this.settings.toasts === 'none' || (this.settings.toasts === 'important' && !important)) {
+      return;
+    }
     this.toast.textContent = message;
     this.toast.classList.add('active');
     this.toastTimer = 1.7;
   }
 
   private reset(): void {
-    this.elapsedSec = 0;
-    this.distance = 0;
-    this.coinsBalance = this.config.economy.startCoins;
-    this.paused = true;
-    this.manualPaused = false;
-    this.pausedByUser = false;
-    this.gameOver = false;
-    this.reviveInvulnMs = 0;
+    this.runRevives = 0;
+    this.recordedDistance = 0;
     this.gameOverBaseScore = 0;
     this.gameOverScoreMultiplier = 1;
-    this.soulsCollected = 0;
     this.sessionEarningsBase = 0;
-    this.shieldMax = 0;
-    this.shieldCount = 0;
-    this.shieldRegenSec = 0;
-    this.shieldRegenTimer = 0;
-    this.obstacleDamageMult = 1;
-    this.magnetMult = 1;
-    this.soulValueMult = 1;
-    this.doubleSoulChance = 0;
-    this.bribeCooldownMult = 1;
-    this.freeBribeEverySec = 0;
-    this.bribeSplashRadius = 0;
-    this.bribeCooldownLeftSec = 0;
-    this.freeBribeTimerSec = 0;
-    this.freeBribeReady = false;
+    this.pendingDragX = null;
+    this.bribeQueued = false;
+    this.hitFlash = 0;
     this.stopDrag();
-    this.obstacles = [];
-    this.coins = [];
-    this.projectiles = [];
-    this.gates = [];
-    this.effects = [];
-    this.gateSpawnTimer = this.firstGateDelaySec();
     this.modal.hidden = true;
-    this.audio.setMuted(false);
-    this.updatePauseButtonLabel();
     this.updateHud();
   }
 
@@ -1075,34 +1804,184 @@ export class Game {
 
     this.drawBoat();
 
-    for (const coin of this.coins) {
-      this.ctx.fillStyle = '#f59e0b';
+    const coinSprite = this.config.assets.coin;
+    for (const coin of this.sim.coins) {
+      const x = this.lerp(coin.prevX, coin.x);
+      const y = this.lerp(coin.prevY, coin.y);
+      if (!this.sprites.draw(this.ctx, coinSprite, x, y, coin.r * 2, coin.r * 2)) {
+        this.ctx.fillStyle = '#f59e0b';
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, coin.r, 0, Math.PI * 2);
+        this.ctx.fill();
+      }
+    }
+
+    for (const obstacle of this.sim.obstacles) {
+      const x = this.lerp(obstacle.prevX, obstacle.x);
+      const y = this.lerp(obstacle.prevY, obstacle.y);
+      if (!this.sprites.draw(this.ctx, this.obstacleSprites.get(obstacle.id), x, y, obstacle.r * 2, obstacle.r * 2)) {
+        this.ctx.fillStyle = obstacle.color;
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, obstacle.r, 0, Math.PI * 2);
+        this.ctx.fill();
+      }
+      if (obstacle.maxHp > 1) {
+        this.drawObstacleHp(obstacle, x, y);
+      }
+    }
+
+    for (const projectile of this.sim.projectiles) {
+      this.ctx.fillStyle = '#f8fafc';
       this.ctx.beginPath();
-      this.ctx.arc(coin.x, coin.y, coin.r, 0, Math.PI * 2);
+      this.ctx.arc(this.lerp(projectile.prevX, projectile.x), this.lerp(projectile.prevY, projectile.y), projectile.r, 0, Math.PI * 2);
       this.ctx.fill();
     }
 
-    for (const obstacle of this.obstacles) {
-      this.ctx.fillStyle = obstacle.color;
+    for (const gate of this.sim.gates) {
+      this.drawGate(gate);
+    }
+
+    if (this.sim.boss) {
+      this.drawBoss(this.sim.boss);
+    }
+
+    const fog = this.sim.fogDensity;
+    if (fog > 0) {
+      // Thickest at the top, clear around the boat so the player still sees what is about to hit.
+      const gradient = this.ctx.createLinearGradient(0, 0, 0, this.sim.player.y - 40);
+      gradient.addColorStop(0, `rgba(148,163,184,${fog})`);
+      gradient.addColorStop(0.75, `rgba(148,163,184,${fog * 0.85})`);
+      gradient.addColorStop(1, 'rgba(148,163,184,0)');
+      this.ctx.fillStyle = gradient;
+      this.ctx.fillRect(0, 0, WIDTH, this.sim.player.y - 40);
+    }
+
+    if (this.hitFlash > 0) {
+      this.ctx.fillStyle = `rgba(239,68,68,${(0.35 * this.hitFlash) / HIT_FLASH_SEC})`;
+      this.ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    }
+
+    if (this.timeScale !== 1) {
+      this.ctx.fillStyle = '#facc15';
+      this.ctx.font = 'bold 14px sans-serif';
+      this.ctx.textAlign = 'right';
+      this.ctx.fillText(`×${this.timeScale}`, WIDTH - 12, HEIGHT - 12);
+      this.ctx.textAlign = 'left';
+    }
+  }
+
+  /** Ring around multi-hit obstacles, one segment per remaining hit point. */
+  private drawObstacleHp(obstacle: ObstacleEntity, x: number, y: number): void {
+    const segment = (Math.PI * 2) / obstacle.maxHp;
+    this.ctx.strokeStyle = '#f8fafc';
+    this.ctx.lineWidth = 3;
+    for (let i = 0; i < obstacle.hp; i += 1) {
+      const start = -Math.PI / 2 + i * segment;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, obstacle.r + 4, start + 0.12, start + segment - 0.12);
+      this.ctx.stroke();
+    }
+  }
+
+  /** The boss sits on a dark band across the river; its telegraph shows where the next attack goes. */
+  private drawBoss(boss: BossEncounter): void {
+    const { config, telegraph } = boss;
+    // Heads sit on the band, so they share its interpolated height.
+    const y = this.lerp(boss.prevY, boss.y);
+    const bandTop = y - 30;
+    this.ctx.fillStyle = config.color;
+    this.ctx.fillRect(0, bandTop, WIDTH, 60);
+
+    if (telegraph) {
+      this.drawBossTelegraph(telegraph, y);
+    }
+
+    for (const head of boss.heads) {
+      const charging = telegraph?.head === head;
+      this.ctx.fillStyle = head.hp > 0 ? (charging ? '#f97316' : '#b91c1c') : '#4b5563';
       this.ctx.beginPath();
-      this.ctx.arc(obstacle.x, obstacle.y, obstacle.r, 0, Math.PI * 2);
+      this.ctx.arc(head.x, y, head.r, 0, Math.PI * 2);
       this.ctx.fill();
+      if (head.hp > 0) {
+        this.ctx.fillStyle = '#f8fafc';
+        this.ctx.font = 'bold 14px sans-serif';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(String(head.hp), head.x, y + 5);
+        this.ctx.textAlign = 'left';
+      }
     }
 
-    for (const projectile of this.projectiles) {
-      this.ctx.fillStyle = '#f8fafc';
+    this.ctx.fillStyle = '#fb923c';
+    for (const shot of boss.shots) {
       this.ctx.beginPath();
-      this.ctx.arc(projectile.x, projectile.y, projectile.r, 0, Math.PI * 2);
+      this.ctx.arc(this.lerp(shot.prevX, shot.x), this.lerp(shot.prevY, shot.y), shot.r, 0, Math.PI * 2);
       this.ctx.fill();
     }
 
-    for (const gate of this.gates) {
-      this.drawGate(gate);
+    if (boss.phase !== 'leaving') {
+      this.drawBossHpBar(boss);
+    }
+  }
+
+  private drawBossTelegraph(telegraph: BossTelegraph, y: number): void {
+    const { attack, head } = telegraph;
+    const progress = attack.telegraphSec > 0 ? 1 - telegraph.remainingSec / attack.telegraphSec : 1;
+    this.ctx.strokeStyle = `rgba(251,146,60,${0.25 + 0.5 * progress})`;
+    this.ctx.fillStyle = `rgba(251,146,60,${0.12 + 0.2 * progress})`;
+    this.ctx.lineWidth = 2;
+
+    switch (attack.type) {
+      case 'volley': {
+        const spread = (attack.spreadDeg * Math.PI) / 180;
+        for (let i = 0; i < attack.count; i += 1) {
+          const t = attack.count === 1 ? 0.5 : i / (attack.count - 1);
+          const angle = Math.PI / 2 - spread / 2 + t * spread;
+          this.ctx.beginPath();
+          this.ctx.moveTo(head.x, y);
+          this.ctx.lineTo(head.x + Math.cos(angle) * HEIGHT, y + Math.sin(angle) * HEIGHT);
+          this.ctx.stroke();
+        }
+        break;
+      }
+      case 'aimed':
+        this.ctx.beginPath();
+        this.ctx.moveTo(head.x, y);
+        this.ctx.lineTo(telegraph.aimX, telegraph.aimY);
+        this.ctx.stroke();
+        break;
+      case 'sweep': {
+        const top = y + 30;
+        const half = attack.gapWidth / 2;
+        this.ctx.fillRect(0, top, telegraph.gapX - half, HEIGHT - top);
+        this.ctx.fillRect(telegraph.gapX + half, top, WIDTH - telegraph.gapX - half, HEIGHT - top);
+        break;
+      }
     }
   }
 
+  private drawBossHpBar(boss: BossEncounter): void {
+    const x = 16;
+    const y = 8;
+    const width = WIDTH - 32;
+    this.ctx.fillStyle = 'rgba(15,23,42,0.75)';
+    this.ctx.fillRect(x, y, width, 10);
+    this.ctx.fillStyle = '#dc2626';
+    this.ctx.fillRect(x, y, (width * boss.hp) / Math.max(1, boss.maxHp), 10);
+    this.ctx.fillStyle = '#e2e8f0';
+    this.ctx.font = '12px sans-serif';
+    const name = this.text.bossName(boss.config);
+    const label = Number.isFinite(boss.timeLeftSec)
+      ? this.text.t('lbl_boss_timer', { boss: name, sec: Math.ceil(boss.timeLeftSec) })
+      : name;
+    this.ctx.fillText(label, x, y + 24);
+  }
+
   private drawBoat(): void {
-    const { x, y, w, h } = this.player;
+    const { y, w, h } = this.sim.player;
+    const x = this.lerp(this.sim.player.prevX, this.sim.player.x);
+    if (this.sprites.draw(this.ctx, this.config.assets.boat, x, y, w, h)) {
+      return;
+    }
     this.ctx.fillStyle = '#38bdf8';
     this.ctx.beginPath();
     this.ctx.moveTo(x, y - h * 0.5);
@@ -1113,18 +1992,22 @@ export class Game {
   }
 
   private drawGate(gate: GatePair): void {
-    const { leftX, rightX, width } = this.gateRects(gate);
+    const { leftX, rightX, width } = gateRects(gate);
+    const y = this.lerp(gate.prevY, gate.y);
 
-    this.ctx.fillStyle = 'rgba(16,185,129,0.55)';
-    this.ctx.fillRect(leftX, gate.y, width, GATE_HEIGHT);
-    this.ctx.fillStyle = 'rgba(168,85,247,0.55)';
-    this.ctx.fillRect(rightX, gate.y, width, GATE_HEIGHT);
+    const centerY = y + GATE_HEIGHT / 2;
+    if (!this.sprites.draw(this.ctx, gate.left.sprite, leftX + width / 2, centerY, width, GATE_HEIGHT)) {
+      this.ctx.fillStyle = 'rgba(16,185,129,0.55)';
+      this.ctx.fillRect(leftX, y, width, GATE_HEIGHT);
+    }
+    if (!this.sprites.draw(this.ctx, gate.right.sprite, rightX + width / 2, centerY, width, GATE_HEIGHT)) {
+      this.ctx.fillStyle = 'rgba(168,85,247,0.55)';
+      this.ctx.fillRect(rightX, y, width, GATE_HEIGHT);
+    }
 
     this.ctx.fillStyle = '#e2e8f0';
     this.ctx.font = '12px sans-serif';
-    const leftLabel = gate.left.name.replace(/^Врата\s+/u, '').trim();
-    const rightLabel = gate.right.name.replace(/^Врата\s+/u, '').trim();
-    this.ctx.fillText(leftLabel, leftX + 8, gate.y + 17);
-    this.ctx.fillText(rightLabel, rightX + 8, gate.y + 17);
+    this.ctx.fillText(this.text.gateLabel(gate.left), leftX + 8, y + 17);
+    this.ctx.fillText(this.text.gateLabel(gate.right), rightX + 8, y + 17);
   }
 }
@@ -1,12 +1,66 @@
-import type { DailyContract, EconomyConfig, GameConfigData, GateConfig, ObstacleConfig, UiText, UpgradeBranchConfig } from '../types/config';
+import type {
+  AchievementConfig,
+  AssetManifest,
+  AudioConfig,
+  BossConfig,
+  DailyContract,
+  EconomyConfig,
+  GameConfigData,
+  GateConfig,
+  ObstacleConfig,
+  ShopOfferConfig,
+  SpawnDirectorConfig,
+  UiText,
+  UpgradeBranchConfig
+} from '../types/config';
+import {
+  CONFIG_FILES,
+  ConfigValidationError,
+  validateConfigFiles,
+  formatConfigIssues,
+  localeFileName,
+  validateLocaleFile,
+  type ConfigIssue,
+  type RawConfigFiles
+} from './ConfigValidation';
+import { DEFAULT_LANGUAGE, Localization, resolveLanguage, type Language } from './Localization';
 
-async function loadJson<T>(relativePath: string): Promise<T> {
+async function loadJson(relativePath: string): Promise<unknown> {
   const url = new URL(`../data/${relativePath}`, import.meta.url);
   const response = await fetch(url);
   if (!response.ok) {
-    throw new Error(`Failed to load ${relativePath}: ${response.status}`);
+    throw new ConfigValidationError([{ file: relativePath, path: '$', reason: `failed to load: HTTP ${response.status}` }]);
   }
-  return response.json() as Promise<T>;
+  const text = await response.text();
+  try {
+    return JSON.parse(text) as unknown;
+  } catch (error) {
+    throw new ConfigValidationError([{ file: relativePath, path: '$', reason: `invalid JSON: ${String(error)}` }]);
+  }
+}
+
+/** Fetches every data file, reporting all unreadable files at once rather than the first one. */
+async function loadRawFiles(): Promise<RawConfigFiles> {
+  const keys = Object.keys(CONFIG_FILES) as Array<keyof typeof CONFIG_FILES>;
+  const results = await Promise.allSettled(keys.map((key) => loadJson(CONFIG_FILES[key])));
+
+  const parseIssues: ConfigIssue[] = [];
+  const files: Partial<RawConfigFiles> = {};
+  results.forEach((result, index) => {
+    const key = keys[index] as keyof typeof CONFIG_FILES;
+    if (result.status === 'fulfilled') {
+      files[key] = result.value;
+    } else if (result.reason instanceof ConfigValidationError) {
+      parseIssues.push(...result.reason.issues);
+    } else {
+      throw result.reason;
+    }
+  });
+
+  if (parseIssues.length > 0) {
+    throw new ConfigValidationError(parseIssues);
+  }
+  return files as RawConfigFiles;
 }
 
 export class GameConfig {
@@ -17,32 +71,70 @@ export class GameConfig {
       return GameConfig.instance;
     }
 
-    const [uiTextRu, economy, gates, obstacles, upgrades, dailyContracts] = await Promise.all([
-      loadJson<UiText>('ui_text_ru.json'),
-      loadJson<EconomyConfig>('economy_config.json'),
-      loadJson<GateConfig[]>('gates.json'),
-      loadJson<ObstacleConfig[]>('obstacles.json'),
-      loadJson<UpgradeBranchConfig[]>('upgrades.json'),
-      loadJson<DailyContract[]>('daily_contracts.json')
-    ]);
+    const raw = await loadRawFiles();
+    const issues = validateConfigFiles(raw);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(issues);
+    }
 
     const data: GameConfigData = {
-      uiTextRu,
-      economy,
-      gates,
-      obstacles,
-      upgrades,
-      dailyContracts
+      uiTextRu: raw.uiText as UiText,
+      economy: raw.economy as EconomyConfig,
+      gates: raw.gates as GateConfig[],
+      obstacles: raw.obstacles as ObstacleConfig[],
+      spawnDirector: raw.spawnDirector as SpawnDirectorConfig,
+      bosses: raw.bosses as BossConfig[],
+      upgrades: raw.upgrades as UpgradeBranchConfig[],
+      dailyContracts: raw.dailyContracts as DailyContract[],
+      audio: raw.audio as AudioConfig,
+      shopOffers: raw.shopOffers as ShopOfferConfig[],
+      achievements: raw.achievements as AchievementConfig[],
+      assets: raw.assets as AssetManifest
     };
 
     GameConfig.instance = new GameConfig(data);
     return GameConfig.instance;
   }
 
-  private constructor(private readonly data: GameConfigData) {}
+  private readonly locales = new Map<Language, Partial<UiText>>();
+  private localization: Localization;
+
+  private constructor(private readonly data: GameConfigData) {
+    this.locales.set(DEFAULT_LANGUAGE, data.uiTextRu);
+    this.localization = new Localization(DEFAULT_LANGUAGE, data.uiTextRu, data.uiTextRu);
+  }
+
+  get text(): Localization {
+    return this.localization;
+  }
+
+  /**
+   * Switches the UI language, fetching `ui_text_<lang>.json` on first use. A missing or broken locale file
+   * is logged and leaves the game in Russian rather than failing the boot.
+   */
+  async useLanguage(candidate: string | null | undefined): Promise<Localization> {
+    const language = resolveLanguage(candidate);
+    let texts = this.locales.get(language);
+    if (!texts) {
+      const file = localeFileName(language);
+      try {
+        const raw = await loadJson(file);
+        const issues = validateLocaleFile(file, raw);
+        if (issues.length > 0) {
+          throw new ConfigValidationError(issues);
+        }
+        texts = raw as Partial<UiText>;
+        this.locales.set(language, texts);
+      } catch (error) {
+        const details = error instanceof ConfigValidationError ? formatConfigIssues(error.issues) : String(error);
+        console.warn(`Locale "${language}" is unavailable, falling back to ${DEFAULT_LANGUAGE}:\n${details}`);
+        this.localization = new Localization(DEFAULT_LANGUAGE, this.data.uiTextRu, this.data.uiTextRu);
+        return this.localization;
+      }
+    }
 
-  get uiText(): UiText {
-    return this.data.uiTextRu;
+    this.localization = new Localization(language, texts, this.data.uiTextRu);
+    return this.localization;
   }
 
   get economy(): EconomyConfig {
@@ -57,6 +149,14 @@ export class GameConfig {
     return this.data.obstacles;
   }
 
+  get spawnDirector(): SpawnDirectorConfig {
+    return this.data.spawnDirector;
+  }
+
+  get bosses(): BossConfig[] {
+    return this.data.bosses;
+  }
+
   get upgrades(): UpgradeBranchConfig[] {
     return this.data.upgrades;
   }
@@ -64,4 +164,20 @@ export class GameConfig {
   get dailyContracts(): DailyContract[] {
     return this.data.dailyContracts;
   }
+
+  get audio(): AudioConfig {
+    return this.data.audio;
+  }
+
+  get shopOffers(): ShopOfferConfig[] {
+    return this.data.shopOffers;
+  }
+
+  get achievements(): AchievementConfig[] {
+    return this.data.achievements;
+  }
+
+  get assets(): AssetManifest {
+    return this.data.assets;
+  }
 }
@@ -0,0 +1,117 @@
+// Top-level flow of the game screen: menu, run, pause, game over. No DOM access; the view subscribes to transitions.
+
+export type GameState = 'menu' | 'running' | 'paused' | 'game_over' | 'reviving';
+
+/**
+ * Why the run is held. Reasons stack: the run resumes only once every one of them is released, so an ad closing does
+ * not lift a pause the player asked for. `hidden`, `platform` and `ad` can also be held outside a run.
+ */
+export type PauseReason = 'user' | 'hidden' | 'platform' | 'ad';
+
+/** `from` equals `to` when only the pause reasons changed. */
+export type StateHook = (from: GameState, to: GameState) => void;
+
+const TRANSITIONS: Record<GameState, readonly GameState[]> = {
+  menu: ['running', 'paused'],
+  running: ['paused', 'game_over', 'reviving', 'menu'],
+  paused: ['running', 'menu'],
+  // A new run can start straight from the game-over screen, which shows the menu.
+  game_over: ['reviving', 'running', 'paused', 'menu'],
+  // Waiting for the rewarded ad: back to the run when it paid out, back to game over when it did not. The game-over
+  // screen stays usable behind the ad, so the player can also leave for the menu or start a new run.
+  reviving: ['running', 'paused', 'game_over', 'menu']
+};
+
+export class GameStateMachine {
+  private state: GameState = 'menu';
+  private readonly reasons = new Set<PauseReason>();
+  private readonly enterHooks = new Map<GameState, StateHook[]>();
+  private readonly exitHooks = new Map<GameState, StateHook[]>();
+  private readonly changeHooks: StateHook[] = [];
+
+  get current(): GameState {
+    return this.state;
+  }
+
+  /** A method rather than a comparison with `current`, so checks after an `await` are not narrowed away. */
+  is(state: GameState): boolean {
+    return this.state === state;
+  }
+
+  /** A run is on screen, moving or not. */
+  get inRun(): boolean {
+    return this.state === 'running' || this.state === 'paused';
+  }
+
+  /** Something outside the game holds it: the tab is hidden, the platform paused it or an ad is playing. */
+  get backgrounded(): boolean {
+    return this.reasons.has('hidden') || this.reasons.has('platform') || this.reasons.has('ad');
+  }
+
+  pausedBy(reason: PauseReason): boolean {
+    return this.reasons.has(reason);
+  }
+
+  onEnter(state: GameState, hook: StateHook): void {
+    this.enterHooks.set(state, [...(this.enterHooks.get(state) ?? []), hook]);
+  }
+
+  onExit(state: GameState, hook: StateHook): void {
+    this.exitHooks.set(state, [...(this.exitHooks.get(state) ?? []), hook]);
+  }
+
+  /** Fires after every transition and every change of the pause reasons. */
+  onChange(hook: StateHook): void {
+    this.changeHooks.push(hook);
+  }
+
+  /** Throws on a transition the table does not allow; those are bugs in the caller, not player actions. */
+  transition(to: GameState): void {
+    const from = this.state;
+    if (!TRANSITIONS[from].includes(to)) {
+      throw new Error(`Invalid game state transition: ${from} -> ${to}`);
+    }
+
+    this.exitHooks.get(from)?.forEach((hook) => hook(from, to));
+    this.state = to;
+    if (to !== 'running' && to !== 'paused') {
+      // A pause the player asked for belongs to that run.
+      this.reasons.delete('user');
+    }
+    this.enterHooks.get(to)?.forEach((hook) => hook(from, to));
+    this.changeHooks.forEach((hook) => hook(from, to));
+  }
+
+  /** Starts or continues a run: `running`, or `paused` while a reason is still held. No-op when already there. */
+  enterRun(): void {
+    const target = this.reasons.size > 0 ? 'paused' : 'running';
+    if (this.state !== target) {
+      this.transition(target);
+    }
+  }
+
+  /** Holds the game for `reason`. A `user` pause only exists inside a run and is ignored elsewhere. */
+  pause(reason: PauseReason): void {
+    if (this.reasons.has(reason) || (reason === 'user' && !this.inRun)) {
+      return;
+    }
+    this.reasons.add(reason);
+    if (this.state === 'running') {
+      this.transition('paused');
+    } else {
+      this.changeHooks.forEach((hook) => hook(this.state, this.state));
+    }
+  }
+
+  /** Releases `reason`; the run resumes when it was the last one. */
+  resume(reason: PauseReason): void {
+    if (!this.reasons.delete(reason)) {
+      return;
+    }
+    if (this.state === 'paused' && this.reasons.size === 0) {
+      this.transition('running');
+    } else {
+      this.changeHooks.forEach((hook) => hook(this.state, this.state));
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { LeaderboardEntry, LeaderboardSnapshot } from '../../platform/Platform';
+import type { Localization } from './Localization';
+
+type LeaderboardState =
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; snapshot: LeaderboardSnapshot };
+
+/** Leaderboard list with loading and error states; the same view is mounted in the menu and the game-over modal. */
+export class LeaderboardView {
+  readonly element: HTMLDivElement;
+  private state: LeaderboardState = { status: 'loading' };
+
+  constructor(
+    private readonly text: () => Localization,
+    private readonly onRetry: () => void
+  ) {
+    this.element = document.createElement('div');
+    this.element.className = 'leaderboard';
+    this.render();
+  }
+
+  setLoading(): void {
+    this.state = { status: 'loading' };
+    this.render();
+  }
+
+  setError(): void {
+    this.state = { status: 'error' };
+    this.render();
+  }
+
+  setSnapshot(snapshot: LeaderboardSnapshot): void {
+    this.state = { status: 'ready', snapshot };
+    this.render();
+  }
+
+  /** Also called on language change. */
+  render(): void {
+    const text = this.text();
+    this.element.replaceChildren();
+
+    if (this.state.status === 'loading') {
+      this.element.append(this.note(text.t('lbl_leaderboard_loading')));
+      return;
+    }
+
+    if (this.state.status === 'error') {
+      const retry = document.createElement('button');
+      retry.textContent = text.t('btn_leaderboard_retry');
+      retry.addEventListener('click', () => this.onRetry());
+      this.element.append(this.note(text.t('lbl_leaderboard_error')), retry);
+      return;
+    }
+
+    const { top, player, around } = this.state.snapshot;
+    if (top.length === 0) {
+      this.element.append(this.note(text.t('lbl_leaderboard_empty')));
+      return;
+    }
+
+    const list = document.createElement('ol');
+    list.className = 'leaderboard-list';
+    top.forEach((entry) => list.append(this.row(entry, text)));
+    if (player && around.length > 0) {
+      const lastTop = top[top.length - 1].rank;
+      if (around[0].rank > lastTop + 1) {
+        const gap = document.createElement('li');
+        gap.className = 'leaderboard-gap';
+        gap.textContent = '…';
+        list.append(gap);
+      }
+      around.forEach((entry) => list.append(this.row(entry, text)));
+    }
+    this.element.append(list);
+  }
+
+  private row(entry: LeaderboardEntry, text: Localization): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = entry.isPlayer ? 'leaderboard-row leaderboard-player' : 'leaderboard-row';
+    const rank = document.createElement('span');
+    rank.textContent = `#${entry.rank}`;
+    const name = document.createElement('span');
+    name.textContent = entry.name || text.t('lbl_leaderboard_anonymous');
+    const score = document.createElement('span');
+    score.textContent = String(entry.score);
+    item.append(rank, name, score);
+    return item;
+  }
+
+  private note(message: string): HTMLParagraphElement {
+    const note = document.createElement('p');
+    note.className = 'leaderboard-note';
+    note.textContent = message;
+    return note;
+  }
+}
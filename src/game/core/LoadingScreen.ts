@@ -0,0 +1,42 @@
+/**
+ * Progress bar shown from boot until the game is built, before `Platform.gameReady`. It comes up before any texts are
+ * loaded, so it shows only the game's name and a percentage.
+ */
+export class LoadingScreen {
+  private readonly element: HTMLDivElement;
+  private readonly fill: HTMLDivElement;
+  private readonly percent: HTMLSpanElement;
+
+  constructor(root: HTMLElement) {
+    this.element = document.createElement('div');
+    this.element.className = 'loading-screen';
+    const title = document.createElement('h1');
+    title.textContent = "Charon's Gamble";
+    const bar = document.createElement('div');
+    bar.className = 'loading-bar';
+    bar.setAttribute('role', 'progressbar');
+    bar.setAttribute('aria-valuemin', '0');
+    bar.setAttribute('aria-valuemax', '100');
+    this.fill = document.createElement('div');
+    this.fill.className = 'loading-fill';
+    bar.append(this.fill);
+    this.percent = document.createElement('span');
+    this.percent.className = 'loading-percent';
+    this.element.append(title, bar, this.percent);
+    root.append(this.element);
+    this.setProgress(0);
+  }
+
+  /** `fraction` of the loading done, 0..1. */
+  setProgress(fraction: number): void {
+    const percent = Math.round(Math.min(1, Math.max(0, fraction)) * 100);
+    this.fill.style.width = `${percent}%`;
+    this.fill.parentElement?.setAttribute('aria-valuenow', String(percent));
+    this.percent.textContent = `${percent}%`;
+  }
+
+  /** Safe to call more than once. */
+  remove(): void {
+    this.element.remove();
+  }
+}
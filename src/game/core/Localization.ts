@@ -0,0 +1,321 @@
+import type {
+  AchievementConfig,
+  BossConfig,
+  DailyContract,
+  GateConfig,
+  PluralForms,
+  ShopOfferConfig,
+  UiText,
+  UpgradeBranchConfig,
+  UpgradeStat
+} from '../types/config';
+import { UPGRADE_STATS } from './UpgradeStats';
+
+export const SUPPORTED_LANGUAGES = ['ru', 'en'] as const;
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+export const DEFAULT_LANGUAGE: Language = 'ru';
+
+/** Shown in the language picker in their own language, so they are not translated. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  ru: 'Русский',
+  en: 'English'
+};
+
+type LocalizedKey = Exclude<keyof UiText, 'ui_text' | 'content'>;
+export type TextKey = { [K in LocalizedKey]: UiText[K] extends string ? K : never }[LocalizedKey];
+export type PluralKey = { [K in LocalizedKey]: UiText[K] extends PluralForms ? K : never }[LocalizedKey];
+export type TextParams = Record<string, string | number>;
+
+/** Every localized key and its kind. Typed as a full record so a key added to `UiText` cannot be forgotten here. */
+export const UI_TEXT_KEY_KINDS: Record<LocalizedKey, 'text' | 'plural'> = {
+  title: 'text',
+  coinLabel: 'text',
+  paused: 'text',
+  resumed: 'text',
+  hitObstacle: 'text',
+  coinPickup: 'text',
+  gateChosen: 'text',
+  freeBribe: 'text',
+  paidBribe: 'plural',
+  insufficientCoins: 'text',
+  gameOver: 'text',
+  revive: 'text',
+  restart: 'text',
+  screen_menu: 'text',
+  screen_shop: 'text',
+  btn_start: 'text',
+  btn_daily: 'text',
+  lbl_seed: 'text',
+  btn_retry: 'text',
+  lbl_wallet: 'text',
+  lbl_best: 'text',
+  btn_buy: 'text',
+  btn_reset_progress: 'text',
+  lbl_level: 'text',
+  lbl_price: 'text',
+  screen_contracts: 'text',
+  btn_claim: 'text',
+  lbl_claimed: 'text',
+  contractDone: 'text',
+  screen_replays: 'text',
+  btn_replay_export: 'text',
+  btn_replay_play: 'text',
+  replayCopied: 'text',
+  replayNothing: 'text',
+  replayInvalid: 'text',
+  replayConfigMismatch: 'text',
+  replayFinished: 'text',
+  replayMatched: 'text',
+  replayDesync: 'text',
+  shieldAbsorbed: 'text',
+  gateAtLimit: 'text',
+  bossAppeared: 'text',
+  bossHeadPaid: 'text',
+  bossDefeated: 'text',
+  bossEscaped: 'text',
+  lbl_boss_timer: 'text',
+  pausedHidden: 'text',
+  resumedVisible: 'text',
+  reviveGranted: 'text',
+  x2Granted: 'text',
+  confirmReset: 'text',
+  progressReset: 'text',
+  walletInsufficient: 'text',
+  upgradeBought: 'text',
+  replaySummary: 'text',
+  hudScore: 'text',
+  btn_pause: 'text',
+  btn_resume: 'text',
+  btn_bribe: 'text',
+  btn_bribe_cooldown: 'text',
+  btn_bribe_free: 'text',
+  btn_bribe_timer: 'text',
+  btn_bribe_cost: 'plural',
+  btn_reward_x2: 'text',
+  lbl_reward_x2_active: 'text',
+  lbl_controls: 'text',
+  lbl_shield: 'text',
+  lbl_max_level: 'text',
+  lbl_branch_complete: 'text',
+  lbl_all_bought: 'text',
+  btn_respec: 'text',
+  btn_respec_all: 'text',
+  btn_cancel: 'text',
+  screen_respec: 'text',
+  lbl_respec_body: 'text',
+  lbl_respec_line: 'text',
+  lbl_respec_fee: 'text',
+  lbl_respec_free: 'text',
+  lbl_respec_refund: 'text',
+  upgradesRespecced: 'text',
+  lbl_stat_shieldStart: 'text',
+  lbl_stat_shieldRegenSec: 'text',
+  lbl_stat_obstacleDamageMult: 'text',
+  lbl_stat_magnetMult: 'text',
+  lbl_stat_soulValueMult: 'text',
+  lbl_stat_doubleSoulChance: 'text',
+  lbl_stat_bribeCooldownMult: 'text',
+  lbl_stat_freeBribeEverySec: 'text',
+  lbl_stat_bribeSplashRadius: 'text',
+  lbl_stat_seconds: 'text',
+  lbl_stat_off: 'text',
+  lbl_language: 'text',
+  gatePrefix: 'text',
+  saveConflictTitle: 'text',
+  saveConflictBody: 'text',
+  saveConflictLocal: 'text',
+  saveConflictCloud: 'text',
+  saveConflictSummary: 'text',
+  screen_settings: 'text',
+  btn_settings: 'text',
+  btn_close: 'text',
+  btn_export_events: 'text',
+  lbl_summary_score: 'text',
+  lbl_summary_best: 'text',
+  lbl_summary_earnings: 'text',
+  lbl_summary_total: 'text',
+  lbl_earn_distance: 'text',
+  lbl_earn_souls: 'text',
+  lbl_earn_balance: 'text',
+  lbl_earn_x2: 'text',
+  lbl_summary_obols: 'text',
+  lbl_obols_start: 'text',
+  lbl_obols_pickups: 'text',
+  lbl_obols_gates: 'text',
+  lbl_obols_bosses: 'text',
+  lbl_obols_revive: 'text',
+  lbl_obols_drain: 'text',
+  lbl_obols_collision: 'text',
+  lbl_obols_bribe: 'text',
+  lbl_summary_gates: 'text',
+  lbl_summary_no_gates: 'text',
+  lbl_gate_at_limit: 'text',
+  lbl_cause_drain: 'text',
+  lbl_cause_collision: 'text',
+  lbl_cause_bribe: 'text',
+  lbl_record_score: 'text',
+  lbl_record_bestEarnings: 'text',
+  lbl_record_mostSouls: 'text',
+  lbl_record_longestRunSec: 'text',
+  lbl_master_volume: 'text',
+  lbl_music_volume: 'text',
+  lbl_sfx_volume: 'text',
+  lbl_steering_speed: 'text',
+  lbl_drag_mode: 'text',
+  opt_drag_absolute: 'text',
+  opt_drag_relative: 'text',
+  lbl_drag_sensitivity: 'text',
+  lbl_reduced_motion: 'text',
+  lbl_screen_effects: 'text',
+  lbl_toasts: 'text',
+  opt_toasts_all: 'text',
+  opt_toasts_important: 'text',
+  opt_toasts_none: 'text',
+  screen_leaderboard: 'text',
+  lbl_leaderboard_loading: 'text',
+  lbl_leaderboard_error: 'text',
+  lbl_leaderboard_empty: 'text',
+  lbl_leaderboard_anonymous: 'text',
+  btn_leaderboard_retry: 'text',
+  screen_premium: 'text',
+  lbl_premium_loading: 'text',
+  lbl_premium_unavailable: 'text',
+  offerBought: 'text',
+  purchaseCancelled: 'text',
+  purchasesRestored: 'text',
+  screen_achievements: 'text',
+  achievementUnlocked: 'text',
+  lbl_achievement_reward: 'text',
+  lbl_unlocked: 'text'
+};
+
+/** Maps `ru-RU`, `en_GB`, `EN` and the like onto a supported language; unknown ones fall back to Russian. */
+export function resolveLanguage(candidate: string | null | undefined): Language {
+  const base = (candidate ?? '').toLowerCase().split(/[-_]/)[0] ?? '';
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? (base as Language) : DEFAULT_LANGUAGE;
+}
+
+export function interpolate(template: string, params: TextParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+export class Localization {
+  private readonly pluralRules: Intl.PluralRules;
+
+  /**
+   * @param primary texts of the selected language, possibly partial
+   * @param fallback the complete Russian reference texts
+   */
+  constructor(readonly language: Language, private readonly primary: Partial<UiText>, private readonly fallback: UiText) {
+    this.pluralRules = new Intl.PluralRules(language);
+  }
+
+  t(key: TextKey, params?: TextParams): string {
+    return interpolate(this.primary[key] ?? this.fallback[key], params);
+  }
+
+  plural(key: PluralKey, count: number, params: TextParams = {}): string {
+    const forms = this.primary[key] ?? this.fallback[key];
+    const template = forms[this.pluralRules.select(count)] ?? forms.other;
+    return interpolate(template, { count, ...params });
+  }
+
+  /** Flavour lines for a toast category, falling back to the locale's `default` lines. */
+  toasts(key: string): string[] | undefined {
+    const own = this.primary.ui_text?.toasts;
+    const reference = this.fallback.ui_text?.toasts;
+    return own?.[key] ?? reference?.[key] ?? own?.default ?? reference?.default;
+  }
+
+  gateName(gate: GateConfig): string {
+    return this.gateContent(gate.id)?.name ?? gate.name;
+  }
+
+  gateDescription(gate: GateConfig): string {
+    return this.gateContent(gate.id)?.description ?? gate.description;
+  }
+
+  /** Short label drawn on the gate itself. */
+  gateLabel(gate: GateConfig): string {
+    const label = this.gateContent(gate.id)?.label;
+    if (label) {
+      return label;
+    }
+    const prefix = this.t('gatePrefix');
+    const name = this.gateName(gate);
+    return name.startsWith(prefix) ? name.slice(prefix.length).trim() : name;
+  }
+
+  upgradeTitle(branch: UpgradeBranchConfig): string {
+    return this.contentOf((content) => content.upgrades?.[branch.id]?.title) ?? branch.title;
+  }
+
+  upgradeLevelTitle(branch: UpgradeBranchConfig, index: number): string {
+    return this.contentOf((content) => content.upgrades?.[branch.id]?.levels?.[index]?.title)
+      ?? branch.levels[index]?.title
+      ?? '';
+  }
+
+  upgradeLevelDesc(branch: UpgradeBranchConfig, index: number): string {
+    return this.contentOf((content) => content.upgrades?.[branch.id]?.levels?.[index]?.shortDesc)
+      ?? branch.levels[index]?.shortDesc
+      ?? '';
+  }
+
+  statName(stat: UpgradeStat): string {
+    return this.t(`lbl_stat_${stat}`);
+  }
+
+  /** A stat value the way the shop shows it, e.g. `×1.45`, `12%` or `every 22 s`. */
+  statValue(stat: UpgradeStat, value: number): string {
+    const rounded = Math.round(value * 100) / 100;
+    switch (UPGRADE_STATS[stat].format) {
+      case 'multiplier':
+        return `×${rounded}`;
+      case 'percent':
+        return `${Math.round(value * 100)}%`;
+      case 'seconds':
+        return value > 0 ? this.t('lbl_stat_seconds', { value: rounded }) : this.t('lbl_stat_off');
+      case 'number':
+        return String(rounded);
+    }
+  }
+
+  contractTitle(contract: DailyContract): string {
+    return this.contentOf((content) => content.contracts?.[contract.id]) ?? contract.title;
+  }
+
+  offerTitle(offer: ShopOfferConfig): string {
+    return this.contentOf((content) => content.offers?.[offer.id]?.title) ?? offer.title;
+  }
+
+  offerDescription(offer: ShopOfferConfig): string {
+    return this.contentOf((content) => content.offers?.[offer.id]?.description) ?? offer.description;
+  }
+
+  achievementTitle(achievement: AchievementConfig): string {
+    return this.contentOf((content) => content.achievements?.[achievement.id]?.title) ?? achievement.title;
+  }
+
+  achievementDescription(achievement: AchievementConfig): string {
+    return this.contentOf((content) => content.achievements?.[achievement.id]?.description) ?? achievement.description;
+  }
+
+  bossName(boss: BossConfig): string {
+    return this.contentOf((content) => content.bosses?.[boss.id]?.name) ?? boss.name;
+  }
+
+  bossRewardDescription(boss: BossConfig): string {
+    return this.contentOf((content) => content.bosses?.[boss.id]?.rewardDescription) ?? boss.rewardDescription;
+  }
+
+  private gateContent(gateId: string): { name?: string; description?: string; label?: string } | undefined {
+    return this.primary.content?.gates?.[gateId] ?? this.fallback.content?.gates?.[gateId];
+  }
+
+  /** Data JSON holds the Russian wording, so content lookups fall back to the data, not to the reference texts. */
+  private contentOf(pick: (content: NonNullable<UiText['content']>) => string | undefined): string | undefined {
+    const { content } = this.primary;
+    return content ? pick(content) : undefined;
+  }
+}
@@ -0,0 +1,88 @@
+import { dayKey } from './Dates';
+
+/** Mulberry32: small, fast and good enough for gameplay rolls. Not for anything security related. */
+export class Rng {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)] as T;
+  }
+
+  /** Picks by relative weight; non-positive weights are never picked. Null when nothing has weight. */
+  weighted<T>(items: readonly T[], weightOf: (item: T) => number): T | null {
+    const total = items.reduce((sum, item) => sum + Math.max(0, weightOf(item)), 0);
+    if (total <= 0) {
+      return null;
+    }
+    let roll = this.next() * total;
+    for (const item of items) {
+      const weight = Math.max(0, weightOf(item));
+      if (roll < weight) {
+        return item;
+      }
+      roll -= weight;
+    }
+    return items.filter((item) => weightOf(item) > 0).pop() ?? null;
+  }
+
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i -= 1) {
+      const j = this.int(i + 1);
+      [result[i], result[j]] = [result[j] as T, result[i] as T];
+    }
+    return result;
+  }
+
+  /** Independent stream for rolls that must not shift the gameplay sequence (toast flavour text, etc). */
+  fork(salt: number): Rng {
+    return new Rng(Math.imul(this.seed ^ salt, 0x9e3779b1));
+  }
+}
+
+export function hashSeed(text: string): number {
+  // FNV-1a, 32 bit.
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/** Every player gets the same river on the same UTC day. */
+export function dailySeed(date: Date = new Date()): number {
+  return hashSeed(`daily:${dayKey(date)}`);
+}
+
+export function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).padStart(8, '0');
+}
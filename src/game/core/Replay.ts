@@ -0,0 +1,190 @@
+import { hashSeed } from './Random';
+import { DEFAULT_STEERING_SPEED, SIM_STEP_SEC, type InputFrame, type InputSource, type RunSimulationConfig } from './RunSimulation';
+
+/** 2: frames are fixed simulation steps, so `dt` moved from every frame into the header as `stepUs`. */
+export const REPLAY_VERSION = 2;
+
+export const REPLAY_KEY_LEFT = 1;
+export const REPLAY_KEY_RIGHT = 2;
+
+/** A bribe shot was requested on this frame. */
+export const REPLAY_FLAG_BRIBE = 1;
+/** The run was paused (any reason) between the previous frame and this one. Informational only. */
+export const REPLAY_FLAG_PAUSE = 2;
+/** A rewarded revive was applied right before this frame. */
+export const REPLAY_FLAG_REVIVE = 4;
+
+/**
+ * `[key bits, drag x * 10 or -1, flag bits, count]`: the same input on `count` steps in a row. Only frames without
+ * flags repeat, so a marker stays on the step it belongs to.
+ */
+export type ReplayFrame = [number, number, number, number];
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  daily: boolean;
+  configHash: string;
+  upgrades: Record<string, number>;
+  /** Keyboard steering the run was recorded with; replays from before the setting existed used the default. */
+  steeringSpeed: number;
+  /** Length of every step in microseconds. */
+  stepUs: number;
+  score: number;
+  frames: ReplayFrame[];
+}
+
+// Live inputs are quantized before the simulation sees them so they survive the text round-trip exactly.
+export function quantizeDt(dt: number): number {
+  return Math.round(dt * 1e6) / 1e6;
+}
+
+export function quantizeDragX(x: number): number {
+  return Math.round(x * 10) / 10;
+}
+
+export function configHash(config: RunSimulationConfig): string {
+  const gameplay = JSON.stringify([config.economy, config.gates, config.obstacles, config.spawnDirector, config.bosses, config.upgrades]);
+  return hashSeed(gameplay).toString(16).padStart(8, '0');
+}
+
+export class ReplayRecorder {
+  private readonly frames: ReplayFrame[] = [];
+  private pendingFlags = 0;
+  /** Copied: the shop can change the save's levels on the end screen, before a revive carries the run on. */
+  private readonly upgrades: Record<string, number>;
+
+  constructor(
+    private readonly seed: number,
+    private readonly daily: boolean,
+    private readonly hash: string,
+    upgrades: Record<string, number>,
+    private readonly steeringSpeed: number
+  ) {
+    this.upgrades = { ...upgrades };
+  }
+
+  /** Attaches a flag to the next recorded frame. */
+  mark(flag: number): void {
+    this.pendingFlags |= flag;
+  }
+
+  push(frame: InputFrame): void {
+    const keys = frame.move < 0 ? REPLAY_KEY_LEFT : frame.move > 0 ? REPLAY_KEY_RIGHT : 0;
+    const flags = this.pendingFlags | (frame.bribe ? REPLAY_FLAG_BRIBE : 0);
+    this.pendingFlags = 0;
+    const dragX10 = frame.dragX === null ? -1 : Math.round(frame.dragX * 10);
+
+    const last = this.frames[this.frames.length - 1];
+    if (flags === 0 && last && last[2] === 0 && last[0] === keys && last[1] === dragX10) {
+      last[3] += 1;
+      return;
+    }
+    this.frames.push([keys, dragX10, flags, 1]);
+  }
+
+  toData(score: number): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      daily: this.daily,
+      configHash: this.hash,
+      upgrades: { ...this.upgrades },
+      steeringSpeed: this.steeringSpeed,
+      stepUs: Math.round(SIM_STEP_SEC * 1e6),
+      score,
+      // Copied frame by frame: a revive keeps recording, and the last frame's count may still grow.
+      frames: this.frames.map((frame): ReplayFrame => [...frame])
+    };
+  }
+}
+
+export class ReplayPlayer implements InputSource {
+  private index = 0;
+  /** Frames already played of `frames[index]`. */
+  private repeat = 0;
+
+  constructor(readonly data: ReplayData) {}
+
+  get done(): boolean {
+    return this.index >= this.data.frames.length;
+  }
+
+  peekFlags(): number {
+    return this.data.frames[this.index]?.[2] ?? 0;
+  }
+
+  read(): InputFrame | null {
+    const frame = this.data.frames[this.index];
+    if (!frame) {
+      return null;
+    }
+    const [keys, dragX10, flags, count] = frame;
+    this.repeat += 1;
+    if (this.repeat >= count) {
+      this.index += 1;
+      this.repeat = 0;
+    }
+
+    return {
+      dt: this.data.stepUs / 1e6,
+      move: keys === REPLAY_KEY_LEFT ? -1 : keys === REPLAY_KEY_RIGHT ? 1 : 0,
+      dragX: dragX10 < 0 ? null : dragX10 / 10,
+      bribe: (flags & REPLAY_FLAG_BRIBE) !== 0
+    };
+  }
+}
+
+export function encodeReplay(data: ReplayData): string {
+  return btoa(JSON.stringify(data));
+}
+
+/** Accepts either raw JSON or the base64 form produced by `encodeReplay`. */
+export function decodeReplay(text: string): ReplayData {
+  const trimmed = text.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed.startsWith('{') ? trimmed : atob(trimmed));
+  } catch {
+    throw new Error('Replay is not valid JSON or base64');
+  }
+
+  const data = parsed as Partial<ReplayData> | null;
+  if (!data || typeof data !== 'object') {
+    throw new Error('Replay payload must be an object');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (typeof data.seed !== 'number' || !Array.isArray(data.frames)) {
+    throw new Error('Replay is missing seed or frames');
+  }
+  if (!Number.isInteger(data.stepUs) || Number(data.stepUs) <= 0) {
+    throw new Error('Replay step must be a whole number of microseconds');
+  }
+  const framesValid = data.frames.every((frame) => Array.isArray(frame)
+    && frame.length === 4
+    && frame.every((value) => Number.isFinite(value))
+    && Number.isInteger(frame[3]) && frame[3] >= 1);
+  if (!framesValid) {
+    throw new Error('Replay contains malformed frames');
+  }
+  const upgrades = data.upgrades ?? {};
+  const upgradesValid = typeof upgrades === 'object' && !Array.isArray(upgrades)
+    && Object.values(upgrades).every((level) => Number.isInteger(level) && level >= 0);
+  if (!upgradesValid) {
+    throw new Error('Replay upgrade levels must be whole numbers, 0 or more');
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed >>> 0,
+    daily: Boolean(data.daily),
+    configHash: String(data.configHash ?? ''),
+    upgrades: { ...upgrades },
+    steeringSpeed: Number.isFinite(data.steeringSpeed) ? Number(data.steeringSpeed) : DEFAULT_STEERING_SPEED,
+    stepUs: Number(data.stepUs),
+    score: Number(data.score ?? 0),
+    frames: data.frames
+  };
+}
@@ -0,0 +1,71 @@
+import type { RespecQuote } from '../services/RespecService';
+import type { Localization } from './Localization';
+
+/** Confirmation before an upgrade respec: each branch with its level and price, then the fee and the refund. */
+export class RespecDialog {
+  readonly element: HTMLDivElement;
+  private readonly card: HTMLDivElement;
+  private settle: ((confirmed: boolean) => void) | null = null;
+
+  constructor(private readonly text: () => Localization) {
+    this.element = document.createElement('div');
+    this.element.className = 'respec-overlay';
+    this.element.hidden = true;
+    this.card = document.createElement('div');
+    this.card.className = 'modal-card respec-card';
+    this.element.append(this.card);
+  }
+
+  /** Shows `quote` and resolves with the player's answer; a second call cancels the first. */
+  ask(quote: RespecQuote): Promise<boolean> {
+    this.close(false);
+    this.render(quote);
+    this.element.hidden = false;
+    return new Promise((resolve) => {
+      this.settle = resolve;
+    });
+  }
+
+  private close(confirmed: boolean): void {
+    this.element.hidden = true;
+    const settle = this.settle;
+    this.settle = null;
+    settle?.(confirmed);
+  }
+
+  private render(quote: RespecQuote): void {
+    const text = this.text();
+    const title = document.createElement('h2');
+    title.textContent = text.t('screen_respec');
+    const body = document.createElement('p');
+    body.textContent = text.t('lbl_respec_body');
+
+    const lines = document.createElement('ul');
+    lines.className = 'respec-lines';
+    for (const line of quote.lines) {
+      const item = document.createElement('li');
+      item.textContent = text.t('lbl_respec_line', { branch: text.upgradeTitle(line.branch), level: line.levels, obols: line.spent });
+      lines.append(item);
+    }
+
+    const fee = document.createElement('p');
+    fee.className = 'respec-fee';
+    fee.textContent = quote.free
+      ? text.t('lbl_respec_free')
+      : text.t('lbl_respec_fee', { percent: `${Math.round(quote.feeRate * 100)}%`, fee: quote.fee });
+    const refund = document.createElement('strong');
+    refund.textContent = text.t('lbl_respec_refund', { refund: quote.refund });
+
+    const row = document.createElement('div');
+    row.className = 'modal-row';
+    const cancel = document.createElement('button');
+    cancel.textContent = text.t('btn_cancel');
+    cancel.addEventListener('click', () => this.close(false));
+    const confirm = document.createElement('button');
+    confirm.textContent = text.t('btn_respec');
+    confirm.addEventListener('click', () => this.close(true));
+    row.append(cancel, confirm);
+
+    this.card.replaceChildren(title, body, lines, fee, refund, row);
+  }
+}
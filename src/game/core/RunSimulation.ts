@@ -0,0 +1,919 @@
+import type {
+  BossConfig,
+  EconomyConfig,
+  GateConfig,
+  GateEffect,
+  GateMultipliers,
+  ObstacleBehavior,
+  ObstacleConfig,
+  SpawnDirectorConfig,
+  UpgradeBranchConfig
+} from '../types/config';
+import { BossEncounter } from './BossEncounter';
+import { EntityPool, type PooledEntity } from './EntityPool';
+import { Rng } from './Random';
+import { SpatialGrid } from './SpatialGrid';
+import { SpawnDirector } from './SpawnDirector';
+import { upgradeStats } from './UpgradeStats';
+
+// Pure run simulation: no DOM, canvas or storage access, so it also runs headless under Node.
+
+export interface Vec2 { x: number; y: number; }
+/** Position at the start of the last step; the view draws between it and the current one. */
+export interface Interpolated { prevX: number; prevY: number; }
+export interface ObstacleEntity extends Vec2, PooledEntity, Interpolated {
+  id: string;
+  r: number;
+  color: string;
+  damage: number;
+  hp: number;
+  maxHp: number;
+  behavior: ObstacleBehavior;
+  /** Lane the movement is applied around; `x` is derived from it every step. */
+  baseX: number;
+  /** Sideways drift of the lane, px/s: diagonal crossers and split pieces. */
+  vx: number;
+  ageSec: number;
+  phase: number;
+}
+export interface CoinEntity extends Vec2, PooledEntity, Interpolated { r: number; value: number; }
+export interface ProjectileEntity extends Vec2, PooledEntity, Interpolated { r: number; speed: number; }
+export interface GatePair extends PooledEntity {
+  y: number;
+  prevY: number;
+  left: GateConfig;
+  right: GateConfig;
+  width: number;
+  chosen: boolean;
+}
+export interface ActiveEffect {
+  /** The gate id, or `boss:<id>` for a boss's run bonus. */
+  gateId: string;
+  /** The gate's lasting effects; instant ones (obols, shields) were applied when it was taken. */
+  effect: GateEffect;
+  permanent: boolean;
+  remainingSec: number;
+}
+
+/** Where obols came from during a run. `revive` is what the revive added on top of a balance at or below zero. */
+export type ObolSource = 'start' | 'pickups' | 'gates' | 'bosses' | 'revive';
+
+/** Obols gained and lost by category; start plus gains minus losses is the balance. */
+export interface RunLedger {
+  gained: Record<ObolSource, number>;
+  lost: Record<LossCause, number>;
+}
+
+/** A gate the boat went through, in order. `applied` is false when it was at its stack limit. */
+export interface GateRecord {
+  gate: GateConfig;
+  atSec: number;
+  distance: number;
+  applied: boolean;
+}
+
+/** The parts of `earnings()`: distance / 10, souls, and the leftover balance / 10. */
+export interface EarningsBreakdown {
+  distance: number;
+  souls: number;
+  balance: number;
+}
+
+/** Inputs consumed by one simulation step. */
+export interface InputFrame {
+  dt: number;
+  move: -1 | 0 | 1;
+  dragX: number | null;
+  bribe: boolean;
+}
+
+export interface InputSource {
+  /** Returns the inputs for the next step, or null when the source is exhausted (end of a replay). */
+  read(dt: number, sim: RunSimulation): InputFrame | null;
+}
+
+/** The slice of `GameConfig` the simulation needs; plain JSON data satisfies it as well. */
+export interface RunSimulationConfig {
+  readonly economy: EconomyConfig;
+  readonly gates: GateConfig[];
+  readonly obstacles: ObstacleConfig[];
+  readonly spawnDirector: SpawnDirectorConfig;
+  readonly bosses: BossConfig[];
+  readonly upgrades: UpgradeBranchConfig[];
+}
+
+/** Keyboard steering when the player has not changed it in settings, px/s. */
+export const DEFAULT_STEERING_SPEED = 340;
+/** The game steps the simulation at this fixed rate (120 Hz) whatever the display refresh. */
+export const SIM_STEP_SEC = 1 / 120;
+
+export interface RunOptions {
+  seed: number;
+  upgrades: Record<string, number>;
+  input: InputSource;
+  /** Keyboard steering, px/s; part of the replay since it changes where the boat goes. */
+  steeringSpeed?: number;
+}
+
+/** What took the last obols: the river's drain, a hit (obstacle or boss shot) or the bribe that emptied the purse. */
+export type LossCause = 'drain' | 'collision' | 'bribe';
+
+export type RunEvent =
+  | { type: 'coin_pickup'; value: number; souls: number }
+  | { type: 'collision'; obstacleId: string; penalty: number }
+  | { type: 'shield_absorbed'; obstacleId: string }
+  | { type: 'bribe_fired'; free: boolean; cost: number }
+  | { type: 'bribe_denied' }
+  | { type: 'bribe_kill'; obstacleIds: string[] }
+  | { type: 'obstacle_hit'; obstacleId: string; hpLeft: number }
+  | { type: 'boss_appeared'; boss: BossConfig }
+  | { type: 'boss_head_hit'; boss: BossConfig; headId: string; hpLeft: number }
+  | { type: 'boss_defeated'; boss: BossConfig; obols: number }
+  | { type: 'boss_escaped'; boss: BossConfig }
+  | { type: 'gate_offered'; left: GateConfig; right: GateConfig }
+  | { type: 'gate_chosen'; gate: GateConfig; applied: boolean }
+  | { type: 'game_over'; score: number; cause: LossCause }
+  | { type: 'revived' };
+
+export const WORLD_WIDTH = 900;
+export const WORLD_HEIGHT = 520;
+export const GATE_GAP = 120;
+export const GATE_HEIGHT = 26;
+export const GATE_SPAWN_Y = -60;
+export const REVIVE_BALANCE = 50;
+/** When `economy.firstGateDelaySec` is not set. */
+export const DEFAULT_FIRST_GATE_DELAY_SEC = 18;
+const REVIVE_INVULN_MS = 1200;
+const BASE_MAGNET_RADIUS = 50;
+const BASE_BRIBE_COOLDOWN_SEC = 0.45;
+const BASE_FORWARD_SPEED = 150;
+const COIN_RADIUS = 10;
+/** Least distance between two appearances of a boss, px; a long fight pushes the next one back. */
+const BOSS_MIN_GAP_DISTANCE = 3000;
+/** How far past the screen edges an obstacle may drift before it is dropped. */
+const OBSTACLE_CULL_MARGIN = 40;
+/** Broadphase area: the screen plus room for rows spawned above it and obstacles drifting off the sides. */
+const GRID_LEFT = -120;
+const GRID_TOP = -240;
+const GRID_CELL = 60;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function intersects(a: Vec2 & { r: number }, b: Vec2 & { r: number }): boolean {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const radius = a.r + b.r;
+  return dx * dx + dy * dy <= radius * radius;
+}
+
+function distanceSq(a: Vec2, b: Vec2): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return dx * dx + dy * dy;
+}
+
+function snapshot(items: ReadonlyArray<Vec2 & Interpolated>): void {
+  for (const item of items) {
+    item.prevX = item.x;
+    item.prevY = item.y;
+  }
+}
+
+/** Spawn order: what the arrays were in before pooling, so simultaneous hits resolve as they always did. */
+function bySeq(a: PooledEntity, b: PooledEntity): number {
+  return a.seq - b.seq;
+}
+
+
+/** Whether two gates may share a row: anything but two `good` or two `bad` ones. */
+function gatesPair(a: GateConfig, b: GateConfig): boolean {
+  const polarityA = a.polarity ?? 'mixed';
+  return polarityA === 'mixed' || polarityA !== (b.polarity ?? 'mixed');
+}
+
+export function gateRects(gate: GatePair): { leftX: number; rightX: number; width: number } {
+  const center = WORLD_WIDTH / 2;
+  const leftX = center - GATE_GAP - gate.width;
+  const rightX = center + GATE_GAP;
+  return { leftX, rightX, width: gate.width };
+}
+
+/**
+ * One run of the river. The view reads the public state after each `step` and reacts to events;
+ * only the simulation itself mutates it.
+ */
+export class RunSimulation {
+  readonly rng: Rng;
+  readonly player = { x: WORLD_WIDTH / 2, prevX: WORLD_WIDTH / 2, y: WORLD_HEIGHT - 70, w: 50, h: 36, speed: DEFAULT_STEERING_SPEED };
+
+  effects: ActiveEffect[] = [];
+  boss: BossEncounter | null = null;
+
+  elapsedSec = 0;
+  distance = 0;
+  coinsBalance: number;
+  soulsCollected = 0;
+  over = false;
+  reviveInvulnMs = 0;
+  /** Last spending that left the balance at or below zero; reported with `game_over`. */
+  private lastLoss: LossCause = 'drain';
+  readonly ledger: RunLedger = {
+    gained: { start: 0, pickups: 0, gates: 0, bosses: 0, revive: 0 },
+    lost: { drain: 0, collision: 0, bribe: 0 }
+  };
+  readonly gateLog: GateRecord[] = [];
+
+  shieldMax = 0;
+  shieldCount = 0;
+  private shieldRegenSec = 0;
+  private shieldRegenTimer = 0;
+  private obstacleDamageMult = 1;
+
+  private magnetMult = 1;
+  private soulValueMult = 1;
+  private doubleSoulChance = 0;
+
+  private bribeCooldownMult = 1;
+  freeBribeEverySec = 0;
+  private bribeSplashRadius = 0;
+  bribeCooldownLeftSec = 0;
+  freeBribeTimerSec = 0;
+  freeBribeReady = false;
+
+  private readonly obstaclePool = new EntityPool<ObstacleEntity>(() => ({
+    seq: 0, alive: false, id: '', x: 0, y: 0, prevX: 0, prevY: 0, r: 0, color: '', damage: 0, hp: 0, maxHp: 0,
+    behavior: {}, baseX: 0, vx: 0, ageSec: 0, phase: 0
+  }));
+  private readonly coinPool = new EntityPool<CoinEntity>(() => ({ seq: 0, alive: false, x: 0, y: 0, prevX: 0, prevY: 0, r: 0, value: 0 }));
+  private readonly projectilePool = new EntityPool<ProjectileEntity>(() => ({
+    seq: 0, alive: false, x: 0, y: 0, prevX: 0, prevY: 0, r: 0, speed: 0
+  }));
+  private readonly gatePool = new EntityPool<GatePair>(() => {
+    // Placeholders until the gate is spawned; validation guarantees at least two gates.
+    const placeholder = this.config.gates[0] as GateConfig;
+    return { seq: 0, alive: false, y: 0, prevY: 0, left: placeholder, right: placeholder, width: 0, chosen: false };
+  });
+  private readonly obstacleGrid = new SpatialGrid<ObstacleEntity>(
+    GRID_LEFT, GRID_TOP, WORLD_WIDTH - 2 * GRID_LEFT, WORLD_HEIGHT - 2 * GRID_TOP, GRID_CELL
+  );
+  // Scratch arrays reused every step, so collision checks allocate nothing.
+  private readonly nearbyObstacles: ObstacleEntity[] = [];
+  private readonly struck: ObstacleEntity[] = [];
+  private readonly gateRowsY: number[] = [];
+
+  private readonly drainTiers: EconomyConfig['coinDrainTiers'];
+  private readonly director: SpawnDirector;
+  private gateSpawnTimer: number;
+  /** Per boss id: the distance of its next appearance and how many times it appeared already. */
+  private readonly bossSchedule = new Map<string, { nextAt: number; encounters: number }>();
+
+  private readonly input: InputSource;
+  private readonly listeners: Array<(event: RunEvent) => void> = [];
+
+  constructor(private readonly config: RunSimulationConfig, options: RunOptions) {
+    this.rng = new Rng(options.seed);
+    this.input = options.input;
+    this.player.speed = options.steeringSpeed ?? DEFAULT_STEERING_SPEED;
+    this.coinsBalance = config.economy.startCoins;
+    this.ledger.gained.start = config.economy.startCoins;
+    this.gateSpawnTimer = config.economy.firstGateDelaySec ?? DEFAULT_FIRST_GATE_DELAY_SEC;
+    this.drainTiers = [...config.economy.coinDrainTiers].sort((a, b) => a.fromSec - b.fromSec);
+    this.director = new SpawnDirector(config.spawnDirector, config.obstacles, this.rng, WORLD_WIDTH);
+    for (const boss of config.bosses) {
+      this.bossSchedule.set(boss.id, { nextAt: boss.triggerDistances[0] ?? Infinity, encounters: 0 });
+    }
+    this.applyMetaUpgrades(options.upgrades);
+  }
+
+  /** Live entities in no particular order; `seq` gives their spawn order. */
+  get obstacles(): readonly ObstacleEntity[] {
+    return this.obstaclePool.items;
+  }
+
+  get coins(): readonly CoinEntity[] {
+    return this.coinPool.items;
+  }
+
+  get projectiles(): readonly ProjectileEntity[] {
+    return this.projectilePool.items;
+  }
+
+  get gates(): readonly GatePair[] {
+    return this.gatePool.items;
+  }
+
+  onEvent(cb: (event: RunEvent) => void): void {
+    this.listeners.push(cb);
+  }
+
+  get bribeCost(): number {
+    return Math.max(0, Math.round(this.config.economy.bribeShotCost * this.effectMultiplier('bribeCostMultiplier')));
+  }
+
+  get controlsMirrored(): boolean {
+    return this.effects.some((effect) => effect.effect.mirrorControls);
+  }
+
+  /** Opacity of the fog over the river ahead; the thickest active fog wins. */
+  get fogDensity(): number {
+    return this.effects.reduce((density, effect) => Math.max(density, effect.effect.fog ?? 0), 0);
+  }
+
+  /** Advances the run by one input frame. Returns false when the input source ran out. */
+  step(dt: number): boolean {
+    if (this.over) {
+      return true;
+    }
+
+    const frame = this.input.read(dt, this);
+    if (!frame) {
+      return false;
+    }
+
+    this.update(frame);
+    return true;
+  }
+
+  revive(): void {
+    this.ledger.gained.revive += REVIVE_BALANCE - this.coinsBalance;
+    this.coinsBalance = REVIVE_BALANCE;
+    this.over = false;
+    this.projectilePool.clear();
+    this.obstaclePool.clear();
+    if (this.boss) {
+      this.boss.shots = [];
+    }
+    this.reviveInvulnMs = REVIVE_INVULN_MS;
+    this.emit({ type: 'revived' });
+  }
+
+  earnings(): number {
+    const parts = this.earningsBreakdown();
+    return Math.max(0, parts.distance + parts.souls + parts.balance);
+  }
+
+  earningsBreakdown(): EarningsBreakdown {
+    return {
+      distance: Math.floor(this.distance / 10),
+      souls: this.soulsCollected,
+      balance: Math.floor(Math.max(0, this.coinsBalance) / 10)
+    };
+  }
+
+  forwardSpeed(): number {
+    const bossSlowdown = this.boss && this.boss.phase !== 'leaving' ? this.boss.config.scrollMultiplier : 1;
+    return BASE_FORWARD_SPEED * this.effectMultiplier('speedMultiplier') * bossSlowdown;
+  }
+
+  private emit(event: RunEvent): void {
+    this.listeners.forEach((cb) => cb(event));
+  }
+
+  private applyMetaUpgrades(levels: Record<string, number>): void {
+    const stats = upgradeStats(this.config.upgrades, levels);
+    this.shieldMax = stats.shieldStart;
+    this.shieldCount = this.shieldMax;
+    this.shieldRegenSec = stats.shieldRegenSec;
+    this.shieldRegenTimer = this.shieldRegenSec;
+    this.obstacleDamageMult = stats.obstacleDamageMult;
+    this.magnetMult = stats.magnetMult;
+    this.soulValueMult = stats.soulValueMult;
+    this.doubleSoulChance = stats.doubleSoulChance;
+    this.bribeCooldownMult = stats.bribeCooldownMult;
+    this.freeBribeEverySec = stats.freeBribeEverySec;
+    this.bribeSplashRadius = stats.bribeSplashRadius;
+    this.bribeCooldownLeftSec = 0;
+    this.freeBribeReady = false;
+    this.freeBribeTimerSec = this.freeBribeEverySec;
+  }
+
+  private update(frame: InputFrame): void {
+    const { dt } = frame;
+    this.snapshotPositions();
+    this.elapsedSec += dt;
+    this.distance += this.forwardSpeed() * dt;
+    this.reviveInvulnMs = Math.max(0, this.reviveInvulnMs - dt * 1000);
+    this.bribeCooldownLeftSec = Math.max(0, this.bribeCooldownLeftSec - dt);
+
+    if (this.freeBribeEverySec > 0 && !this.freeBribeReady) {
+      this.freeBribeTimerSec -= dt;
+      if (this.freeBribeTimerSec <= 0) {
+        this.freeBribeReady = true;
+      }
+    }
+
+    if (this.shieldRegenSec > 0 && this.shieldCount < this.shieldMax) {
+      this.shieldRegenTimer -= dt;
+      if (this.shieldRegenTimer <= 0) {
+        this.shieldCount += 1;
+        this.shieldRegenTimer = this.shieldRegenSec;
+      }
+    }
+
+    // Mirrored controls flip the input, so the view keeps reporting where the finger or key points.
+    const halfW = this.player.w / 2;
+    const mirrored = this.controlsMirrored;
+    if (frame.dragX !== null) {
+      this.player.x = clamp(mirrored ? WORLD_WIDTH - frame.dragX : frame.dragX, halfW, WORLD_WIDTH - halfW);
+    }
+    const move = mirrored ? -frame.move : frame.move;
+    this.player.x = clamp(this.player.x + move * this.player.speed * dt, halfW, WORLD_WIDTH - halfW);
+
+    if (frame.bribe) {
+      this.fireBribe();
+    }
+
+    const drain = this.currentDrainRate() * this.effectMultiplier('drainMultiplier') * dt;
+    this.spend(drain, 'drain');
+
+    this.spawnAndMove(dt);
+    this.updateBoss(dt);
+    this.handleCollisions();
+    this.updateEffects(dt);
+
+    if (this.coinsBalance <= 0) {
+      this.over = true;
+      this.emit({ type: 'game_over', score: Math.floor(this.distance), cause: this.lastLoss });
+    }
+  }
+
+  private gain(amount: number, source: ObolSource): void {
+    this.coinsBalance += amount;
+    this.ledger.gained[source] += amount;
+  }
+
+  private spend(amount: number, cause: LossCause): void {
+    this.coinsBalance -= amount;
+    this.ledger.lost[cause] += amount;
+    if (this.coinsBalance <= 0) {
+      this.lastLoss = cause;
+    }
+  }
+
+  private snapshotPositions(): void {
+    this.player.prevX = this.player.x;
+    snapshot(this.obstacles);
+    snapshot(this.coins);
+    snapshot(this.projectiles);
+    for (const gate of this.gates) {
+      gate.prevY = gate.y;
+    }
+    this.boss?.snapshotPositions();
+  }
+
+  private spawnAndMove(dt: number): void {
+    const scrollSpeed = this.forwardSpeed();
+
+    this.gateRowsY.length = 0;
+    for (const gate of this.gates) {
+      this.gateRowsY.push(gate.y);
+    }
+    this.gateRowsY.push(GATE_SPAWN_Y - scrollSpeed * this.gateSpawnTimer);
+    const spawns = this.director.update(dt, {
+      elapsedSec: this.elapsedSec,
+      distance: this.distance,
+      scrollSpeed,
+      obstacles: this.obstacles,
+      gateRowsY: this.gateRowsY,
+      holdObstacles: this.boss !== null
+    });
+    for (const spawn of spawns) {
+      if (spawn.kind === 'obstacle') {
+        this.spawnObstacle(spawn.template, spawn);
+      } else {
+        const coin = this.coinPool.spawn();
+        coin.x = coin.prevX = spawn.x;
+        coin.y = coin.prevY = spawn.y;
+        coin.r = COIN_RADIUS;
+        coin.value = this.config.economy.pickupValue;
+      }
+    }
+
+    // The gate clock stops during a boss fight, so no gate row shows up under the boss.
+    if (!this.boss) {
+      this.gateSpawnTimer -= dt;
+    }
+    if (this.gateSpawnTimer <= 0) {
+      this.gateSpawnTimer = this.config.economy.gateIntervalSec;
+      const [left, right] = this.pickTwoGates();
+      const gate = this.gatePool.spawn();
+      gate.y = gate.prevY = GATE_SPAWN_Y;
+      gate.left = left;
+      gate.right = right;
+      gate.width = 170;
+      gate.chosen = false;
+      this.emit({ type: 'gate_offered', left, right });
+    }
+
+    for (const obstacle of this.obstacles) {
+      this.moveObstacle(obstacle, scrollSpeed, dt);
+    }
+    for (const coin of this.coins) {
+      coin.y += scrollSpeed * dt;
+    }
+    for (const gate of this.gates) {
+      gate.y += scrollSpeed * dt;
+    }
+    for (const projectile of this.projectiles) {
+      projectile.y -= projectile.speed * dt;
+    }
+
+    this.obstaclePool.removeWhere((entity) => entity.y >= WORLD_HEIGHT + OBSTACLE_CULL_MARGIN
+      || entity.x <= -entity.r - OBSTACLE_CULL_MARGIN
+      || entity.x >= WORLD_WIDTH + entity.r + OBSTACLE_CULL_MARGIN);
+    this.coinPool.removeWhere((entity) => entity.y >= WORLD_HEIGHT + 30);
+    this.gatePool.removeWhere((entity) => entity.y >= WORLD_HEIGHT + 80);
+    this.projectilePool.removeWhere((entity) => entity.y <= -20);
+  }
+
+  /** Split pieces pass the sideways speed they fly apart with; diagonal crossers head for the farther bank. */
+  private spawnObstacle(template: ObstacleConfig, at: Vec2, spreadVx = 0): ObstacleEntity {
+    const behavior = template.behavior ?? {};
+    const movement = behavior.movement;
+    let vx = spreadVx;
+    if (movement?.type === 'diagonal') {
+      vx += at.x < WORLD_WIDTH / 2 ? movement.speed : -movement.speed;
+    }
+
+    const hp = Math.max(1, Math.floor(behavior.hp ?? 1));
+    const obstacle = this.obstaclePool.spawn();
+    obstacle.id = template.id;
+    obstacle.x = obstacle.prevX = at.x;
+    obstacle.y = obstacle.prevY = at.y;
+    obstacle.r = template.radius;
+    obstacle.damage = template.damage;
+    obstacle.color = template.color;
+    obstacle.hp = hp;
+    obstacle.maxHp = hp;
+    obstacle.behavior = behavior;
+    obstacle.baseX = at.x;
+    obstacle.vx = vx;
+    obstacle.ageSec = 0;
+    obstacle.phase = movement?.type === 'sine' ? this.rng.range(0, Math.PI * 2) : 0;
+    return obstacle;
+  }
+
+  private moveObstacle(obstacle: ObstacleEntity, scrollSpeed: number, dt: number): void {
+    const movement = obstacle.behavior.movement;
+    obstacle.ageSec += dt;
+    obstacle.y += scrollSpeed * dt;
+    obstacle.baseX += obstacle.vx * dt;
+
+    if (movement?.type === 'homing') {
+      // Only steers while the boat is ahead, so once it is level or past the boat it cannot turn back.
+      const ahead = this.player.y - obstacle.y;
+      if (ahead > 0 && ahead <= (movement.range ?? Infinity)) {
+        const maxStep = movement.speed * dt;
+        obstacle.baseX += clamp(this.player.x - obstacle.baseX, -maxStep, maxStep);
+      }
+    }
+
+    obstacle.x = movement?.type === 'sine'
+      ? obstacle.baseX + movement.amplitude * Math.sin(2 * Math.PI * movement.frequency * obstacle.ageSec + obstacle.phase)
+      : obstacle.baseX;
+  }
+
+  /** Takes one hit point off; true when that destroyed it. */
+  private damageObstacle(obstacle: ObstacleEntity): boolean {
+    obstacle.hp -= 1;
+    if (obstacle.hp > 0) {
+      this.emit({ type: 'obstacle_hit', obstacleId: obstacle.id, hpLeft: obstacle.hp });
+      return false;
+    }
+    return true;
+  }
+
+  private splitObstacle(obstacle: ObstacleEntity): void {
+    const split = obstacle.behavior.split;
+    const template = split && this.config.obstacles.find((item) => item.id === split.into);
+    if (!split || !template) {
+      return;
+    }
+    for (let i = 0; i < split.count; i += 1) {
+      // Pieces fan out evenly from -spreadSpeed to +spreadSpeed.
+      const spread = split.count === 1 ? 0 : (i / (split.count - 1)) * 2 - 1;
+      // Later bribes in the same step can already hit the pieces.
+      this.obstacleGrid.insert(this.spawnObstacle(template, obstacle, spread * split.spreadSpeed));
+    }
+  }
+
+  /**
+   * Weighted pick of two different gates that may be offered right now, never two `good` or two `bad` ones. The rules are
+   * relaxed in that order when the data leaves no valid pair, so a row always has two gates.
+   */
+  private pickTwoGates(): [GateConfig, GateConfig] {
+    const weightOf = (gate: GateConfig): number => gate.weight ?? 1;
+    const offerable = this.config.gates.filter((gate) => this.elapsedSec >= (gate.minElapsedSec ?? 0) && !this.atStackLimit(gate));
+    const first = this.rng.weighted(offerable, weightOf) ?? this.rng.pick(this.config.gates);
+    const others = offerable.filter((gate) => gate.id !== first.id);
+    const second = this.rng.weighted(others.filter((gate) => gatesPair(first, gate)), weightOf)
+      ?? this.rng.weighted(others, weightOf)
+      ?? this.rng.pick(this.config.gates.filter((gate) => gate.id !== first.id));
+    return this.rng.chance(0.5) ? [first, second] : [second, first];
+  }
+
+  private atStackLimit(gate: GateConfig): boolean {
+    if (gate.maxStacks === undefined) {
+      return false;
+    }
+    return this.effects.filter((effect) => effect.gateId === gate.id).length >= gate.maxStacks;
+  }
+
+  private handleCollisions(): void {
+    const boatBody = { x: this.player.x, y: this.player.y, r: this.player.w * 0.45 };
+    const magnetRadius = BASE_MAGNET_RADIUS * this.magnetMult * this.effectMultiplier('magnetMultiplier');
+    const magnetRadiusSq = magnetRadius * magnetRadius;
+    this.indexObstacles();
+
+    // Coins get a single query per step, so rejecting other rows is all the broadphase they need. Every coin is worth
+    // the same, so the order they are picked up in does not matter.
+    const coinReach = Math.max(magnetRadius, boatBody.r) + COIN_RADIUS;
+    for (const coin of this.coins) {
+      if (Math.abs(coin.y - boatBody.y) > coinReach) {
+        continue;
+      }
+      const inMagnet = distanceSq(boatBody, coin) <= magnetRadiusSq;
+      if (!inMagnet && !intersects(boatBody, coin)) {
+        continue;
+      }
+
+      let value = coin.value * this.soulValueMult * this.effectMultiplier('pickupMultiplier');
+      let souls = 1;
+
+      if (this.rng.chance(this.doubleSoulChance)) {
+        value += coin.value * this.soulValueMult * this.effectMultiplier('pickupMultiplier');
+        souls += 1;
+      }
+
+      coin.alive = false;
+      this.soulsCollected += souls;
+      this.gain(value, 'pickups');
+      this.emit({ type: 'coin_pickup', value, souls });
+    }
+
+    // Obstacles differ in damage, so a shield must take the first one spawned, as it always did.
+    const rammed = this.struck;
+    rammed.length = 0;
+    const nearby = this.obstacleGrid.query(boatBody.x, boatBody.y, boatBody.r, this.nearbyObstacles);
+    for (let i = 0; i < nearby; i += 1) {
+      const obstacle = this.nearbyObstacles[i] as ObstacleEntity;
+      if (intersects(boatBody, obstacle)) {
+        rammed.push(obstacle);
+      }
+    }
+    rammed.sort(bySeq);
+    for (const obstacle of rammed) {
+      obstacle.alive = false;
+      this.hitBoat(obstacle.id, obstacle.damage);
+    }
+
+    if (this.boss) {
+      const boss = this.boss;
+      boss.shots = boss.shots.filter((shot) => {
+        if (!intersects(boatBody, shot)) {
+          return true;
+        }
+        this.hitBoat(boss.config.id, shot.damage);
+        return false;
+      });
+    }
+
+    for (const gate of this.gates) {
+      if (gate.chosen) continue;
+      // Swept over the step, so a long step cannot carry the row past the boat unnoticed.
+      if (gate.y < this.player.y - GATE_HEIGHT || gate.prevY > this.player.y + GATE_HEIGHT) continue;
+
+      const { leftX, rightX, width } = gateRects(gate);
+      const leftCenter = leftX + width * 0.5;
+      const rightCenter = rightX + width * 0.5;
+      const inLeftRect = this.player.x >= leftX && this.player.x <= leftX + width;
+      const inRightRect = this.player.x >= rightX && this.player.x <= rightX + width;
+
+      if (inLeftRect) {
+        gate.chosen = true;
+        this.applyGate(gate.left);
+      } else if (inRightRect) {
+        gate.chosen = true;
+        this.applyGate(gate.right);
+      } else {
+        const distanceLeft = Math.abs(this.player.x - leftCenter);
+        const distanceRight = Math.abs(this.player.x - rightCenter);
+        gate.chosen = true;
+        this.applyGate(distanceLeft <= distanceRight ? gate.left : gate.right);
+      }
+    }
+
+    // Shots resolve in the order they were fired, each against the first-spawned obstacle it touches.
+    this.projectilePool.items.sort(bySeq);
+    for (const projectile of this.projectiles) {
+      const hit = this.firstObstacleTouching(projectile);
+      if (!hit) {
+        projectile.alive = !this.bribeBoss(projectile);
+        continue;
+      }
+      projectile.alive = false;
+      this.bribeObstacles(hit);
+    }
+
+    this.obstaclePool.sweep();
+    this.coinPool.sweep();
+    this.projectilePool.sweep();
+  }
+
+  /** Rebuilds the obstacle broadphase from this step's positions. */
+  private indexObstacles(): void {
+    this.obstacleGrid.clear();
+    for (const obstacle of this.obstacles) {
+      this.obstacleGrid.insert(obstacle);
+    }
+  }
+
+  private firstObstacleTouching(projectile: ProjectileEntity): ObstacleEntity | null {
+    let first: ObstacleEntity | null = null;
+    const nearby = this.obstacleGrid.query(projectile.x, projectile.y, projectile.r, this.nearbyObstacles);
+    for (let i = 0; i < nearby; i += 1) {
+      const obstacle = this.nearbyObstacles[i] as ObstacleEntity;
+      if (obstacle.alive && intersects(projectile, obstacle) && (!first || obstacle.seq < first.seq)) {
+        first = obstacle;
+      }
+    }
+    return first;
+  }
+
+  /** Every obstacle caught by the shot (the target plus the splash) loses one hit point. */
+  private bribeObstacles(hit: ObstacleEntity): void {
+    const caught = this.struck;
+    caught.length = 0;
+    if (this.bribeSplashRadius > 0) {
+      const splashSq = this.bribeSplashRadius * this.bribeSplashRadius;
+      const nearby = this.obstacleGrid.query(hit.x, hit.y, this.bribeSplashRadius, this.nearbyObstacles);
+      for (let i = 0; i < nearby; i += 1) {
+        const obstacle = this.nearbyObstacles[i] as ObstacleEntity;
+        if (obstacle.alive && (obstacle === hit || distanceSq(obstacle, hit) <= splashSq)) {
+          caught.push(obstacle);
+        }
+      }
+      caught.sort(bySeq);
+    } else {
+      caught.push(hit);
+    }
+
+    const destroyed = caught.filter((obstacle) => this.damageObstacle(obstacle));
+    if (destroyed.length > 0) {
+      destroyed.forEach((obstacle) => (obstacle.alive = false));
+      destroyed.forEach((obstacle) => this.splitObstacle(obstacle));
+      this.emit({ type: 'bribe_kill', obstacleIds: destroyed.map((obstacle) => obstacle.id) });
+    }
+  }
+
+  /** Obstacles and boss shots: a shield takes the hit, otherwise the penalty scaled by `damage` is paid. */
+  private hitBoat(sourceId: string, damage: number): void {
+    if (this.reviveInvulnMs > 0) {
+      return;
+    }
+    if (this.shieldCount > 0) {
+      this.shieldCount -= 1;
+      this.shieldRegenTimer = this.shieldRegenSec;
+      this.emit({ type: 'shield_absorbed', obstacleId: sourceId });
+      return;
+    }
+    const penalty = this.config.economy.collisionPenalty
+      * damage
+      * this.effectMultiplier('collisionPenaltyMultiplier')
+      * this.obstacleDamageMult;
+    this.spend(penalty, 'collision');
+    this.emit({ type: 'collision', obstacleId: sourceId, penalty });
+  }
+
+  /** Starts a boss whose distance has come up once the gate rows are gone; drops it once it has left. */
+  private updateBoss(dt: number): void {
+    if (!this.boss) {
+      if (this.gates.length > 0) {
+        return;
+      }
+      const due = this.config.bosses.find((boss) => this.distance >= (this.bossSchedule.get(boss.id)?.nextAt ?? Infinity));
+      if (!due) {
+        return;
+      }
+      const schedule = this.bossSchedule.get(due.id) as { nextAt: number; encounters: number };
+      this.boss = new BossEncounter(due, schedule.encounters, this.rng, WORLD_WIDTH, WORLD_HEIGHT);
+      schedule.encounters += 1;
+      const upcoming = due.triggerDistances[schedule.encounters]
+        ?? (due.repeatEvery ? schedule.nextAt + due.repeatEvery : Infinity);
+      schedule.nextAt = Math.max(upcoming, this.distance + BOSS_MIN_GAP_DISTANCE);
+      this.emit({ type: 'boss_appeared', boss: due });
+      return;
+    }
+
+    if (this.boss.update(dt, this.player)) {
+      this.emit({ type: 'boss_escaped', boss: this.boss.config });
+    }
+    if (this.boss.finished) {
+      this.boss = null;
+    }
+  }
+
+  /** A bribe that reached the boss pays one head; paying the last one ends the fight with the reward. */
+  private bribeBoss(projectile: ProjectileEntity): boolean {
+    const head = this.boss?.hitHead(projectile);
+    if (!this.boss || !head) {
+      return false;
+    }
+    const boss = this.boss.config;
+    this.emit({ type: 'boss_head_hit', boss, headId: head.config.id, hpLeft: head.hp });
+    if (this.boss.defeated) {
+      this.gain(boss.reward.obols, 'bosses');
+      if (boss.reward.runBonus && Object.keys(boss.reward.runBonus).length > 0) {
+        this.effects.push({ gateId: `boss:${boss.id}`, effect: boss.reward.runBonus, permanent: true, remainingSec: 0 });
+      }
+      this.emit({ type: 'boss_defeated', boss, obols: boss.reward.obols });
+    }
+    return true;
+  }
+
+  private applyGate(gate: GateConfig): void {
+    // Only reachable when one gate sits in both rows on screen, since a gate at its limit is not offered.
+    this.gateLog.push({ gate, atSec: this.elapsedSec, distance: this.distance, applied: !this.atStackLimit(gate) });
+    if (this.atStackLimit(gate)) {
+      this.emit({ type: 'gate_chosen', gate, applied: false });
+      return;
+    }
+
+    const { obols, shields, ...lasting } = gate.effects;
+    this.gain(obols ?? 0, 'gates');
+    this.shieldCount += Math.max(0, Math.floor(shields ?? 0));
+
+    if (Object.keys(lasting).length > 0) {
+      const duration = gate.permanent ? 0 : (gate.durationSec || this.config.economy.gateDurationSec);
+      this.effects.push({
+        gateId: gate.id,
+        effect: lasting,
+        permanent: Boolean(gate.permanent),
+        remainingSec: duration
+      });
+    }
+    this.emit({ type: 'gate_chosen', gate, applied: true });
+  }
+
+  private updateEffects(dt: number): void {
+    this.effects = this.effects.filter((effect) => {
+      if (effect.permanent) {
+        return true;
+      }
+      effect.remainingSec -= dt;
+      return effect.remainingSec > 0;
+    });
+  }
+
+  private fireBribe(): void {
+    if (this.bribeCooldownLeftSec > 0) return;
+
+    const randomFreeShot = this.rng.chance(this.config.economy.freeBribeChance);
+    // A gate that makes bribes free keeps the upgrade's timed free shot for later.
+    const timerFreeShot = this.freeBribeReady && this.bribeCost > 0;
+    const freeShot = randomFreeShot || timerFreeShot || this.bribeCost === 0;
+
+    const cost = freeShot ? 0 : this.bribeCost;
+    if (this.coinsBalance < cost) {
+      this.emit({ type: 'bribe_denied' });
+      return;
+    }
+
+    if (timerFreeShot) {
+      this.freeBribeReady = false;
+      this.freeBribeTimerSec = this.freeBribeEverySec;
+    }
+
+    this.spend(cost, 'bribe');
+    this.bribeCooldownLeftSec = BASE_BRIBE_COOLDOWN_SEC * this.bribeCooldownMult;
+
+    const projectile = this.projectilePool.spawn();
+    projectile.x = projectile.prevX = this.player.x;
+    projectile.y = projectile.prevY = this.player.y - 20;
+    projectile.r = 8;
+    projectile.speed = 450;
+    this.emit({ type: 'bribe_fired', free: freeShot, cost });
+  }
+
+  private currentDrainRate(): number {
+    let current = this.drainTiers[0]?.rate ?? 0;
+    for (const tier of this.drainTiers) {
+      if (this.elapsedSec >= tier.fromSec) {
+        current = tier.rate;
+      }
+    }
+    return current;
+  }
+
+  private effectMultiplier(key: keyof GateMultipliers): number {
+    return this.effects.reduce((acc, effect) => {
+      const value = effect.effect[key];
+      if (typeof value !== 'number') {
+        return acc;
+      }
+      return acc * value;
+    }, 1);
+  }
+}
@@ -0,0 +1,236 @@
+import type { RunRecordKey } from '../services/RunRecords';
+import type { Localization, TextKey } from './Localization';
+import type { EarningsBreakdown, GateRecord, LossCause, ObolSource, RunLedger } from './RunSimulation';
+
+/** Everything the end-of-run screen shows; `Game` builds it when the run ends. */
+export interface RunSummary {
+  score: number;
+  best: number;
+  /** 2 once the rewarded x2 was taken; scales score and earnings. */
+  multiplier: number;
+  earnings: EarningsBreakdown;
+  ledger: RunLedger;
+  gates: GateRecord[];
+  cause: LossCause;
+  /** Records this run beat, in display order. */
+  records: Array<'score' | RunRecordKey>;
+  daily: boolean;
+  seed: string;
+}
+
+const COUNT_UP_SEC = 1.2;
+const GAINS: readonly ObolSource[] = ['start', 'pickups', 'gates', 'bosses', 'revive'];
+const LOSSES: readonly LossCause[] = ['drain', 'collision', 'bribe'];
+
+interface Counter {
+  element: HTMLElement;
+  value: number;
+  format: (value: number) => string;
+}
+
+function formatClock(sec: number): string {
+  const whole = Math.floor(sec);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/**
+ * End-of-run breakdown: cause of death, records, score, where the earnings came from, obols gained and lost, and the
+ * gates taken. Numbers count up when a summary is first shown; a click skips to the end.
+ */
+export class RunSummaryView {
+  readonly element: HTMLDivElement;
+  private summary: RunSummary | null = null;
+  private counters: Counter[] = [];
+  private progress = 1;
+  private frame: number | null = null;
+  private onCounted: (() => void) | null = null;
+
+  constructor(private readonly text: () => Localization) {
+    this.element = document.createElement('div');
+    this.element.className = 'run-summary';
+    this.element.addEventListener('click', () => this.finish());
+  }
+
+  /** Shows a new run's summary. `onCounted` runs once the count-up ends or is skipped; right away when `animate` is off. */
+  show(summary: RunSummary, animate: boolean, onCounted: () => void): void {
+    this.stop();
+    this.summary = summary;
+    this.onCounted = onCounted;
+    this.progress = animate ? 0 : 1;
+    this.render();
+    if (!animate) {
+      this.finish();
+      return;
+    }
+
+    let startedAt: number | null = null;
+    const tick = (timestamp: number): void => {
+      startedAt ??= timestamp;
+      this.progress = Math.min(1, (timestamp - startedAt) / 1000 / COUNT_UP_SEC);
+      this.updateCounters();
+      if (this.progress >= 1) {
+        this.finish();
+        return;
+      }
+      this.frame = requestAnimationFrame(tick);
+    };
+    this.frame = requestAnimationFrame(tick);
+  }
+
+  /** Redraws with new values (x2 taken) or text (language change) without restarting the count-up. */
+  update(summary: RunSummary | null = this.summary): void {
+    this.summary = summary;
+    this.render();
+  }
+
+  private finish(): void {
+    this.stop();
+    this.progress = 1;
+    this.updateCounters();
+    const onCounted = this.onCounted;
+    this.onCounted = null;
+    onCounted?.();
+  }
+
+  private stop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  private render(): void {
+    const summary = this.summary;
+    const text = this.text();
+    this.counters = [];
+    this.element.replaceChildren();
+    if (!summary) {
+      return;
+    }
+
+    const title = document.createElement('h2');
+    title.textContent = text.t('gameOver');
+    const cause = document.createElement('p');
+    cause.className = 'summary-cause';
+    cause.textContent = text.t(`lbl_cause_${summary.cause}`);
+    this.element.append(title, cause);
+
+    if (summary.records.length > 0) {
+      const records = document.createElement('ul');
+      records.className = 'summary-records';
+      for (const record of summary.records) {
+        const item = document.createElement('li');
+        item.textContent = text.t(`lbl_record_${record}`);
+        records.append(item);
+      }
+      this.element.append(records);
+    }
+
+    const score = document.createElement('div');
+    score.className = 'summary-score';
+    const scoreLabel = document.createElement('span');
+    scoreLabel.textContent = text.t('lbl_summary_score');
+    const scoreValue = this.counter(summary.score * summary.multiplier, String);
+    const best = document.createElement('span');
+    best.className = 'summary-muted';
+    best.textContent = text.t('lbl_summary_best', { best: summary.best });
+    score.append(scoreLabel, scoreValue, best);
+    this.element.append(score);
+
+    const { distance, souls, balance } = summary.earnings;
+    const earningRows: Array<[TextKey, number]> = [
+      ['lbl_earn_distance', distance],
+      ['lbl_earn_souls', souls],
+      ['lbl_earn_balance', balance]
+    ];
+    const subtotal = distance + souls + balance;
+    if (summary.multiplier > 1) {
+      earningRows.push(['lbl_earn_x2', subtotal * (summary.multiplier - 1)]);
+    }
+    this.element.append(this.table(text.t('lbl_summary_earnings'), earningRows, subtotal * summary.multiplier, (value) => `+${value}`));
+
+    const obolRows: Array<[TextKey, number]> = [
+      ...GAINS.filter((source) => source === 'start' || summary.ledger.gained[source] > 0)
+        .map((source): [TextKey, number] => [`lbl_obols_${source}`, Math.round(summary.ledger.gained[source])]),
+      ...LOSSES.filter((loss) => summary.ledger.lost[loss] > 0)
+        .map((loss): [TextKey, number] => [`lbl_obols_${loss}`, -Math.round(summary.ledger.lost[loss])])
+    ];
+    this.element.append(this.table(text.t('lbl_summary_obols'), obolRows, null, (value) => (value > 0 ? `+${value}` : `${value}`)));
+
+    const gatesTitle = document.createElement('h3');
+    gatesTitle.textContent = text.t('lbl_summary_gates');
+    const gates = document.createElement('ol');
+    gates.className = 'summary-gates';
+    for (const record of summary.gates) {
+      const item = document.createElement('li');
+      const at = document.createElement('span');
+      at.className = 'summary-muted';
+      at.textContent = formatClock(record.atSec);
+      const effect = record.applied ? text.gateDescription(record.gate) : text.t('lbl_gate_at_limit');
+      item.append(at, ` ${text.gateName(record.gate)} — ${effect}`);
+      gates.append(item);
+    }
+    if (summary.gates.length === 0) {
+      const none = document.createElement('li');
+      none.className = 'summary-muted';
+      none.textContent = text.t('lbl_summary_no_gates');
+      gates.append(none);
+    }
+    this.element.append(gatesTitle, gates);
+
+    const seed = document.createElement('p');
+    seed.className = 'summary-muted';
+    const mode = summary.daily ? `${text.t('btn_daily')}, ` : '';
+    seed.textContent = `${mode}${text.t('lbl_seed')}: ${summary.seed}`;
+    this.element.append(seed);
+
+    this.updateCounters();
+  }
+
+  /** Titled rows of label and counted-up value, with an optional total row. */
+  private table(
+    heading: string,
+    rows: Array<[TextKey, number]>,
+    total: number | null,
+    format: (value: number) => string
+  ): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'summary-table';
+    const title = document.createElement('h3');
+    title.textContent = heading;
+    section.append(title);
+    for (const [label, value] of rows) {
+      section.append(this.row(this.text().t(label), this.counter(value, format), value < 0));
+    }
+    if (total !== null) {
+      const row = this.row(this.text().t('lbl_summary_total'), this.counter(total, format), false);
+      row.classList.add('summary-total');
+      section.append(row);
+    }
+    return section;
+  }
+
+  private row(label: string, value: HTMLElement, loss: boolean): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = loss ? 'summary-row summary-loss' : 'summary-row';
+    const name = document.createElement('span');
+    name.textContent = label;
+    row.append(name, value);
+    return row;
+  }
+
+  private counter(value: number, format: (value: number) => string): HTMLSpanElement {
+    const element = document.createElement('span');
+    element.className = 'summary-value';
+    this.counters.push({ element, value, format });
+    return element;
+  }
+
+  private updateCounters(): void {
+    // Ease out, so the numbers settle rather than stop dead.
+    const eased = 1 - (1 - this.progress) ** 3;
+    for (const counter of this.counters) {
+      counter.element.textContent = counter.format(Math.round(counter.value * eased));
+    }
+  }
+}
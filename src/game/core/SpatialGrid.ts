@@ -0,0 +1,91 @@
+// Broadphase for the simulation's circle queries; pure like the simulation.
+
+export interface GridBody {
+  x: number;
+  y: number;
+  r: number;
+}
+
+const INITIAL_CAPACITY = 64;
+
+/**
+ * Uniform grid over a fixed area. Each body goes into the cell holding its center; queries widen by the largest radius
+ * inserted since the last `clear`, so a body is found whenever it overlaps the queried area. Bodies outside the area are
+ * kept in the border cells, so they are still found, only less cheaply.
+ *
+ * Cells are linked lists threaded through typed arrays, so clearing and rebuilding every step allocates nothing.
+ */
+export class SpatialGrid<T extends GridBody> {
+  private readonly cols: number;
+  private readonly rows: number;
+  /** First body index per cell, -1 when empty. */
+  private readonly head: Int32Array;
+  /** Next body index in the same cell, -1 at the end. */
+  private next = new Int32Array(INITIAL_CAPACITY);
+  private bodies: T[] = [];
+  private count = 0;
+  private maxRadius = 0;
+
+  constructor(
+    private readonly left: number,
+    private readonly top: number,
+    width: number,
+    height: number,
+    private readonly cellSize: number
+  ) {
+    this.cols = Math.max(1, Math.ceil(width / cellSize));
+    this.rows = Math.max(1, Math.ceil(height / cellSize));
+    this.head = new Int32Array(this.cols * this.rows).fill(-1);
+  }
+
+  clear(): void {
+    this.head.fill(-1);
+    this.count = 0;
+    this.maxRadius = 0;
+  }
+
+  insert(body: T): void {
+    if (this.count === this.next.length) {
+      const grown = new Int32Array(this.next.length * 2);
+      grown.set(this.next);
+      this.next = grown;
+    }
+    const index = this.count;
+    const cell = this.row(body.y) * this.cols + this.col(body.x);
+    this.bodies[index] = body;
+    this.next[index] = this.head[cell] as number;
+    this.head[cell] = index;
+    this.count += 1;
+    this.maxRadius = Math.max(this.maxRadius, body.r);
+  }
+
+  /**
+   * Writes every body that may touch the circle at `x, y` with radius `reach` to the front of `out` and returns how many
+   * it wrote; callers still run the exact test. Entries past the count are stale, so one array can be reused for every
+   * query.
+   */
+  query(x: number, y: number, reach: number, out: T[]): number {
+    const extent = reach + this.maxRadius;
+    const fromCol = this.col(x - extent);
+    const toCol = this.col(x + extent);
+    const toRow = this.row(y + extent);
+    let found = 0;
+    for (let row = this.row(y - extent); row <= toRow; row += 1) {
+      for (let col = fromCol; col <= toCol; col += 1) {
+        for (let index = this.head[row * this.cols + col] as number; index !== -1; index = this.next[index] as number) {
+          out[found] = this.bodies[index] as T;
+          found += 1;
+        }
+      }
+    }
+    return found;
+  }
+
+  private col(x: number): number {
+    return Math.min(this.cols - 1, Math.max(0, Math.floor((x - this.left) / this.cellSize)));
+  }
+
+  private row(y: number): number {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor((y - this.top) / this.cellSize)));
+  }
+}
@@ -0,0 +1,254 @@
+import type { ObstacleConfig, SpawnDirectorConfig, SpawnPatternConfig, SpawnStageConfig } from '../types/config';
+import type { Rng } from './Random';
+
+// Pure like the simulation it feeds: decides what appears where, the simulation creates the entities.
+
+export type Spawn =
+  | { kind: 'obstacle'; template: ObstacleConfig; x: number; y: number }
+  | { kind: 'coin'; x: number; y: number };
+
+/** An obstacle as the lane check sees it. */
+export interface SpawnedObstacle {
+  x: number;
+  y: number;
+  r: number;
+  baseX: number;
+  behavior: ObstacleConfig['behavior'];
+}
+
+/** The part of the run state the director reads each step. */
+export interface SpawnContext {
+  elapsedSec: number;
+  distance: number;
+  scrollSpeed: number;
+  obstacles: readonly SpawnedObstacle[];
+  /**
+   * Rows to keep clear, in current screen coordinates. Everything scrolls at the same speed, so the next gate is passed
+   * at the height it would have now had it spawned already (above the screen).
+   */
+  gateRowsY: number[];
+  /** No obstacles or patterns while set (a boss fight); coins keep coming. */
+  holdObstacles: boolean;
+}
+
+interface Span {
+  from: number;
+  to: number;
+}
+
+export const OBSTACLE_SPAWN_Y = -40;
+export const COIN_SPAWN_Y = -20;
+const COIN_MARGIN = 24;
+/** Space between neighbouring obstacles of a wall; narrower than the boat. */
+const WALL_SLIT = 16;
+const PLACEMENT_TRIES = 4;
+/** Delay before trying again when a spawn was skipped (no lane left or too close to a gate). */
+const RETRY_SEC = 0.15;
+
+/**
+ * Centers of `r`-sized bodies closing `from..to` with slits narrower than the boat, never reaching past the segment.
+ * Shared with the boss sweep attack.
+ */
+export function fillSegment(from: number, to: number, r: number): number[] {
+  const length = to - from;
+  if (length <= 0) {
+    return [];
+  }
+  if (length < 2 * r) {
+    // Too short for a whole body: let it stick out past the bank rather than into the gap.
+    return [from === 0 ? to - r : from + r];
+  }
+  const count = Math.ceil((length - 2 * r) / (2 * r + WALL_SLIT)) + 1;
+  if (count === 1) {
+    return [from + length / 2];
+  }
+  const step = (length - 2 * r) / (count - 1);
+  return Array.from({ length: count }, (_, i) => from + r + i * step);
+}
+
+/**
+ * Picks spawn timings, the obstacle mix and patterns from `spawn_director.json` as the run progresses. Every obstacle row
+ * keeps a free lane of at least `laneWidth` when it spawns, and nothing spawns within `gateClearance` of a gate row.
+ */
+export class SpawnDirector {
+  private obstacleTimer = 0;
+  private coinTimer = 0;
+
+  constructor(
+    private readonly config: SpawnDirectorConfig,
+    private readonly obstacles: readonly ObstacleConfig[],
+    private readonly rng: Rng,
+    private readonly worldWidth: number
+  ) {}
+
+  stageAt(context: SpawnContext): SpawnStageConfig {
+    const progress = this.config.progress === 'distance' ? context.distance : context.elapsedSec;
+    let current = this.config.stages[0] as SpawnStageConfig;
+    for (const stage of this.config.stages) {
+      if (progress >= stage.from) {
+        current = stage;
+      }
+    }
+    return current;
+  }
+
+  update(dt: number, context: SpawnContext): Spawn[] {
+    const stage = this.stageAt(context);
+    const spawns: Spawn[] = [];
+
+    this.obstacleTimer -= dt;
+    if (this.obstacleTimer <= 0 && context.holdObstacles) {
+      this.obstacleTimer = RETRY_SEC;
+    } else if (this.obstacleTimer <= 0) {
+      this.obstacleTimer = this.rng.range(stage.obstacleIntervalSec.min, stage.obstacleIntervalSec.max);
+      const pattern = this.rng.chance(stage.patternChance ?? 0) ? this.pickPattern(stage) : null;
+      const placed = pattern ? this.placePattern(pattern, context) : null;
+      if (placed) {
+        spawns.push(...placed.spawns);
+        // No single obstacles inside the pattern: they could close the path between its gaps.
+        this.obstacleTimer += placed.height / Math.max(1, context.scrollSpeed);
+      } else {
+        const single = this.placeObstacle(stage, context);
+        if (single) {
+          spawns.push(single);
+        } else {
+          this.obstacleTimer = RETRY_SEC;
+        }
+      }
+    }
+
+    this.coinTimer -= dt;
+    if (this.coinTimer <= 0) {
+      if (this.clearOfGates(COIN_SPAWN_Y, context)) {
+        this.coinTimer = this.rng.range(stage.coinIntervalSec.min, stage.coinIntervalSec.max);
+        spawns.push({ kind: 'coin', x: this.rng.range(COIN_MARGIN, this.worldWidth - COIN_MARGIN), y: COIN_SPAWN_Y });
+      } else {
+        this.coinTimer = RETRY_SEC;
+      }
+    }
+
+    return spawns;
+  }
+
+  private pickPattern(stage: SpawnStageConfig): SpawnPatternConfig | null {
+    const weights = stage.patterns;
+    return this.rng.weighted(this.config.patterns, (pattern) => (weights ? weights[pattern.id] ?? 0 : 1));
+  }
+
+  private placeObstacle(stage: SpawnStageConfig, context: SpawnContext): Spawn | null {
+    const weights = stage.obstacleWeights;
+    const template = this.rng.weighted(
+      this.obstacles,
+      (item) => (weights ? weights[item.id] ?? 0 : item.spawnWeight ?? 1)
+    );
+    if (!template || !this.clearOfGates(OBSTACLE_SPAWN_Y, context)) {
+      return null;
+    }
+
+    const movement = template.behavior?.movement;
+    const r = template.radius;
+    for (let attempt = 0; attempt < PLACEMENT_TRIES; attempt += 1) {
+      let x: number;
+      let reach = r;
+      if (movement?.type === 'diagonal') {
+        // Starts near a bank; the simulation sends it toward the other one.
+        const offset = this.rng.range(r, this.worldWidth * 0.25);
+        x = this.rng.chance(0.5) ? offset : this.worldWidth - offset;
+      } else if (movement?.type === 'sine') {
+        const swing = Math.min(movement.amplitude, this.worldWidth / 2 - r);
+        x = this.rng.range(r + swing, this.worldWidth - r - swing);
+        reach += swing;
+      } else {
+        x = this.rng.range(r, this.worldWidth - r);
+      }
+      if (this.leavesLane(OBSTACLE_SPAWN_Y, [{ from: x - reach, to: x + reach }], context)) {
+        return { kind: 'obstacle', template, x, y: OBSTACLE_SPAWN_Y };
+      }
+    }
+    return null;
+  }
+
+  /** The pattern's spawns and its height in px, or null when it does not fit right now. */
+  private placePattern(pattern: SpawnPatternConfig, context: SpawnContext): { spawns: Spawn[]; height: number } | null {
+    if (pattern.type === 'coin_line') {
+      const slope = (pattern.slope ?? 0) * (this.rng.chance(0.5) ? 1 : -1);
+      const drift = slope * (pattern.count - 1);
+      const minX = COIN_MARGIN + Math.max(0, -drift);
+      const maxX = this.worldWidth - COIN_MARGIN - Math.max(0, drift);
+      if (minX > maxX) {
+        return null;
+      }
+      const startX = this.rng.range(minX, maxX);
+      const spawns: Spawn[] = [];
+      for (let i = 0; i < pattern.count; i += 1) {
+        const y = COIN_SPAWN_Y - i * pattern.spacing;
+        if (this.clearOfGates(y, context)) {
+          spawns.push({ kind: 'coin', x: startX + i * slope, y });
+        }
+      }
+      return spawns.length > 0 ? { spawns, height: (pattern.count - 1) * pattern.spacing } : null;
+    }
+
+    const template = this.obstacles.find((item) => item.id === pattern.obstacle);
+    if (!template) {
+      return null;
+    }
+    const gapWidth = pattern.gapWidth ?? this.config.laneWidth;
+    const rows = pattern.type === 'slalom' ? pattern.rows : 1;
+    const rowSpacing = pattern.type === 'slalom' ? pattern.rowSpacing : 0;
+    let leftSide = this.rng.chance(0.5);
+
+    const spawns: Spawn[] = [];
+    for (let row = 0; row < rows; row += 1) {
+      const y = OBSTACLE_SPAWN_Y - row * rowSpacing;
+      const half = this.worldWidth / 2;
+      const gapCenter = pattern.type === 'slalom'
+        ? this.rng.range(gapWidth / 2, half - gapWidth / 2) + (leftSide ? 0 : half)
+        : this.rng.range(gapWidth / 2, this.worldWidth - gapWidth / 2);
+      leftSide = !leftSide;
+
+      const xs = [
+        ...fillSegment(0, gapCenter - gapWidth / 2, template.radius),
+        ...fillSegment(gapCenter + gapWidth / 2, this.worldWidth, template.radius)
+      ];
+      const spans = xs.map((x) => ({ from: x - template.radius, to: x + template.radius }));
+      if (!this.clearOfGates(y, context) || !this.leavesLane(y, spans, context)) {
+        return null;
+      }
+      xs.forEach((x) => spawns.push({ kind: 'obstacle', template, x, y }));
+    }
+    return { spawns, height: (rows - 1) * rowSpacing };
+  }
+
+  private clearOfGates(y: number, context: SpawnContext): boolean {
+    return context.gateRowsY.every((rowY) => Math.abs(rowY - y) >= this.config.gateClearance);
+  }
+
+  /** Whether the row at `y`, with `added` blocked as well, still has a free stretch of `laneWidth`. */
+  private leavesLane(y: number, added: Span[], context: SpawnContext): boolean {
+    const blocked = context.obstacles
+      .filter((obstacle) => Math.abs(obstacle.y - y) <= this.config.rowDepth)
+      .map((obstacle) => this.spanOf(obstacle))
+      .concat(added)
+      .sort((a, b) => a.from - b.from);
+
+    let edge = 0;
+    for (const span of blocked) {
+      if (span.from - edge >= this.config.laneWidth) {
+        return true;
+      }
+      edge = Math.max(edge, span.to);
+    }
+    return this.worldWidth - edge >= this.config.laneWidth;
+  }
+
+  /** Weaving obstacles block their whole swing. */
+  private spanOf(obstacle: SpawnedObstacle): Span {
+    const movement = obstacle.behavior?.movement;
+    if (movement?.type === 'sine') {
+      const reach = obstacle.r + movement.amplitude;
+      return { from: obstacle.baseX - reach, to: obstacle.baseX + reach };
+    }
+    return { from: obstacle.x - obstacle.r, to: obstacle.x + obstacle.r };
+  }
+}
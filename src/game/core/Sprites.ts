@@ -0,0 +1,91 @@
+import type { AssetManifest, SpriteFrame } from '../types/config';
+
+/** An image still loading by then counts as failed, so one stalled request cannot hold up the boot. */
+const IMAGE_TIMEOUT_MS = 10000;
+
+/** Called once before loading starts and again as each image settles, loaded or not. */
+export type LoadProgress = (done: number, total: number) => void;
+
+interface Sprite {
+  image: HTMLImageElement;
+  frame: SpriteFrame;
+}
+
+interface ImageJob {
+  src: string;
+  /** Registers the sprites the image holds once it has loaded. */
+  add: (image: HTMLImageElement) => void;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    const settle = (loaded: boolean, reason = ''): void => {
+      window.clearTimeout(timer);
+      image.onload = null;
+      image.onerror = null;
+      if (!loaded) {
+        console.warn(`Sprite image "${src}" unavailable (${reason}), using the vector fallback`);
+      }
+      resolve(loaded ? image : null);
+    };
+    const timer = window.setTimeout(() => settle(false, 'timed out'), IMAGE_TIMEOUT_MS);
+    image.onload = () => settle(true);
+    image.onerror = () => settle(false, 'failed to load');
+    image.src = new URL(src, document.baseURI).href;
+  });
+}
+
+/**
+ * Sprites from `assets.json` by id: whole images and texture atlas frames. A sprite whose image failed to load is
+ * simply missing, and `draw` returns false so the caller draws its vector shape instead.
+ */
+export class SpriteSet {
+  private readonly sprites = new Map<string, Sprite>();
+
+  /** Loads every image of `manifest` in parallel. Never rejects: a failed image is logged and its sprites left out. */
+  static async load(manifest: AssetManifest, onProgress: LoadProgress = () => {}): Promise<SpriteSet> {
+    const set = new SpriteSet();
+    const jobs: ImageJob[] = [
+      ...Object.entries(manifest.images).map(([id, src]): ImageJob => ({
+        src,
+        add: (image) => set.sprites.set(id, { image, frame: { x: 0, y: 0, w: image.naturalWidth, h: image.naturalHeight } })
+      })),
+      ...Object.values(manifest.atlases).map((atlas): ImageJob => ({
+        src: atlas.src,
+        add: (image) => {
+          for (const [id, frame] of Object.entries(atlas.frames)) {
+            set.sprites.set(id, { image, frame });
+          }
+        }
+      }))
+    ];
+
+    let done = 0;
+    onProgress(done, jobs.length);
+    await Promise.all(jobs.map(async (job) => {
+      const image = await loadImage(job.src);
+      if (image) {
+        job.add(image);
+      }
+      done += 1;
+      onProgress(done, jobs.length);
+    }));
+    return set;
+  }
+
+  has(id: string | undefined): boolean {
+    return id !== undefined && this.sprites.has(id);
+  }
+
+  /** Draws sprite `id` centred on (x, y) and scaled to w × h. Returns false, drawing nothing, when it is not loaded. */
+  draw(ctx: CanvasRenderingContext2D, id: string | undefined, x: number, y: number, w: number, h: number): boolean {
+    const sprite = id === undefined ? undefined : this.sprites.get(id);
+    if (!sprite) {
+      return false;
+    }
+    const { frame } = sprite;
+    ctx.drawImage(sprite.image, frame.x, frame.y, frame.w, frame.h, x - w / 2, y - h / 2, w, h);
+    return true;
+  }
+}
@@ -0,0 +1,76 @@
+// Stats the meta upgrades change: base values, limits and how levels stack. No DOM access; the simulation, the shop and
+// config validation share it.
+
+import type { UpgradeBranchConfig, UpgradeStat } from '../types/config';
+
+/** How the shop prints a value: `multiplier` ×1.2, `percent` 12%, `seconds` 22 s (0 reads as off), `number` as is. */
+export type StatFormat = 'multiplier' | 'percent' | 'seconds' | 'number';
+
+export interface UpgradeStatSpec {
+  /** Value with nothing bought. */
+  base: number;
+  min: number;
+  max?: number;
+  /** Rounded down after clamping, e.g. whole shields. */
+  integer?: boolean;
+  format: StatFormat;
+}
+
+export const UPGRADE_STATS: Record<UpgradeStat, UpgradeStatSpec> = {
+  shieldStart: { base: 0, min: 0, integer: true, format: 'number' },
+  shieldRegenSec: { base: 0, min: 0, format: 'seconds' },
+  obstacleDamageMult: { base: 1, min: 0.1, format: 'multiplier' },
+  magnetMult: { base: 1, min: 1, format: 'multiplier' },
+  soulValueMult: { base: 1, min: 0.1, format: 'multiplier' },
+  doubleSoulChance: { base: 0, min: 0, max: 1, format: 'percent' },
+  bribeCooldownMult: { base: 1, min: 0.2, format: 'multiplier' },
+  freeBribeEverySec: { base: 0, min: 0, format: 'seconds' },
+  bribeSplashRadius: { base: 0, min: 0, format: 'number' }
+};
+
+export const UPGRADE_STAT_KEYS = Object.keys(UPGRADE_STATS) as UpgradeStat[];
+
+export type UpgradeStats = Record<UpgradeStat, number>;
+
+/** Drops the float noise of summed deltas, so 1 + 0.15 + 0.15 + 0.15 comes out as exactly 1.45. */
+const PRECISION = 1e9;
+
+/**
+ * Stat values for the given branch levels. Every bought level of every branch contributes its modifiers, so any branch
+ * can touch any stat: `(base + sum of add) * product of mul`, then clamped to the stat's limits. Levels past a branch's
+ * end count as its last level; ids with no branch are ignored.
+ */
+export function upgradeStats(branches: readonly UpgradeBranchConfig[], levels: Record<string, number>): UpgradeStats {
+  const added = {} as UpgradeStats;
+  const multiplied = {} as UpgradeStats;
+  for (const stat of UPGRADE_STAT_KEYS) {
+    added[stat] = 0;
+    multiplied[stat] = 1;
+  }
+
+  for (const branch of branches) {
+    const bought = Math.min(levels[branch.id] ?? 0, branch.levels.length);
+    for (const level of branch.levels.slice(0, Math.max(0, bought))) {
+      for (const stat of UPGRADE_STAT_KEYS) {
+        const modifier = level.effect[stat];
+        if (!modifier) {
+          continue;
+        }
+        if ('add' in modifier) {
+          added[stat] += modifier.add;
+        } else {
+          multiplied[stat] *= modifier.mul;
+        }
+      }
+    }
+  }
+
+  const stats = {} as UpgradeStats;
+  for (const stat of UPGRADE_STAT_KEYS) {
+    const spec = UPGRADE_STATS[stat];
+    const raw = Math.round((spec.base + added[stat]) * multiplied[stat] * PRECISION) / PRECISION;
+    const clamped = Math.min(spec.max ?? Infinity, Math.max(spec.min, raw));
+    stats[stat] = spec.integer ? Math.floor(clamped) : clamped;
+  }
+  return stats;
+}
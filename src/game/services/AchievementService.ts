@@ -0,0 +1,67 @@
+import type { AchievementConfig, AchievementSaveState, SaveData } from '../types/config';
+
+export interface AchievementView {
+  achievement: AchievementConfig;
+  progress: number;
+  target: number;
+  unlocked: boolean;
+}
+
+export class AchievementService {
+  private runCounters: Record<string, number> = {};
+
+  constructor(private readonly achievements: AchievementConfig[]) {}
+
+  static emptyState(): AchievementSaveState {
+    return { unlocked: [], counters: {} };
+  }
+
+  beginRun(): void {
+    this.runCounters = {};
+  }
+
+  /**
+   * Adds to a counter (for this run and for the lifetime total) and unlocks whatever reached its target, crediting
+   * rewards to the wallet. Returns the achievements unlocked by this call.
+   */
+  record(save: SaveData, counter: string, amount = 1): AchievementConfig[] {
+    if (amount <= 0) {
+      return [];
+    }
+
+    this.runCounters[counter] = (this.runCounters[counter] ?? 0) + amount;
+    save.achievements.counters[counter] = (save.achievements.counters[counter] ?? 0) + amount;
+
+    const unlocked: AchievementConfig[] = [];
+    for (const achievement of this.achievements) {
+      if (achievement.condition.counter !== counter || save.achievements.unlocked.includes(achievement.id)) {
+        continue;
+      }
+      if (this.progressOf(save, achievement) >= achievement.condition.target) {
+        save.achievements.unlocked.push(achievement.id);
+        save.walletCoins += achievement.reward ?? 0;
+        unlocked.push(achievement);
+      }
+    }
+    return unlocked;
+  }
+
+  /** Run-scoped achievements show the current run's progress; it resets with the next run. */
+  list(save: SaveData): AchievementView[] {
+    return this.achievements.map((achievement) => {
+      const target = Math.max(1, achievement.condition.target);
+      const unlocked = save.achievements.unlocked.includes(achievement.id);
+      return {
+        achievement,
+        progress: unlocked ? target : Math.min(target, Math.floor(this.progressOf(save, achievement))),
+        target,
+        unlocked
+      };
+    });
+  }
+
+  private progressOf(save: SaveData, achievement: AchievementConfig): number {
+    const { counter, scope } = achievement.condition;
+    return scope === 'run' ? this.runCounters[counter] ?? 0 : save.achievements.counters[counter] ?? 0;
+  }
+}
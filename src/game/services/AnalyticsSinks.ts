@@ -0,0 +1,61 @@
+import type { Platform } from '../../platform/Platform';
+import type { GameEvent, GameEventSink, GameEventType } from './GameEvents';
+
+export interface LoggedEvent {
+  at: number;
+  event: GameEvent;
+}
+
+/** Prints every event; `Game` adds it in dev builds only. */
+export class ConsoleSink implements GameEventSink {
+  handle(event: GameEvent): void {
+    console.debug(`[event] ${event.type}`, event);
+  }
+}
+
+/** Keeps the last `capacity` events in memory for playtests; the settings panel downloads them as JSON. */
+export class RingBufferSink implements GameEventSink {
+  private readonly buffer: LoggedEvent[] = [];
+  private next = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  handle(event: GameEvent, at: number): void {
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push({ at, event });
+      return;
+    }
+    this.buffer[this.next] = { at, event };
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /** Oldest first. */
+  entries(): LoggedEvent[] {
+    return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  toJson(): string {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), events: this.entries() }, null, 2);
+  }
+}
+
+/** Session-level events worth a goal on the platform side; per-frame ones like collisions would only be noise there. */
+export const PLATFORM_EVENT_TYPES: readonly GameEventType[] = [
+  'run_start', 'run_end', 'revive', 'ad_shown', 'upgrade_bought', 'upgrade_respec'
+];
+
+/** Forwards the chosen event types to `Platform.trackEvent`. */
+export class PlatformSink implements GameEventSink {
+  constructor(
+    private readonly platform: Platform,
+    private readonly types: readonly GameEventType[] = PLATFORM_EVENT_TYPES
+  ) {}
+
+  handle(event: GameEvent): void {
+    if (!this.types.includes(event.type)) {
+      return;
+    }
+    const { type, ...params } = event;
+    this.platform.trackEvent(type, params);
+  }
+}
@@ -0,0 +1,10 @@
+import type { SynthWave } from '../types/config';
+
+/** Effects `Game` fires; `audio.json` must define every one. */
+export const SFX_NAMES = ['coin', 'hit', 'shield', 'bribe', 'gate', 'game_over', 'revive'] as const;
+export type SfxName = typeof SFX_NAMES[number];
+
+export const MUSIC_TRACK_NAMES = ['menu', 'run'] as const;
+export type MusicTrackName = typeof MUSIC_TRACK_NAMES[number];
+
+export const SYNTH_WAVES: readonly SynthWave[] = ['sine', 'square', 'sawtooth', 'triangle', 'noise'];
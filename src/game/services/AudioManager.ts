@@ -1,29 +1,292 @@
-export type SfxName = string;
+import type { AudioConfig, MusicSynthConfig, SfxSynthConfig, SynthWave } from '../types/config';
+import type { MusicTrackName, SfxName } from './AudioCues';
 
+export type { MusicTrackName, SfxName } from './AudioCues';
+
+const MUTE_RAMP_SEC = 0.08;
+const NOTE_ATTACK_SEC = 0.02;
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart'] as const;
+
+type AudioContextCtor = new () => AudioContext;
+
+/** One period of `wave` at `phase` (in cycles), in -1..1. */
+function oscillate(wave: Exclude<SynthWave, 'noise'>, phase: number): number {
+  const t = phase - Math.floor(phase);
+  switch (wave) {
+    case 'sine': return Math.sin(2 * Math.PI * t);
+    case 'square': return t < 0.5 ? 1 : -1;
+    case 'sawtooth': return 2 * t - 1;
+    case 'triangle': return 1 - 4 * Math.abs(t - 0.5);
+  }
+}
+
+/** Renders a one-shot into a buffer. For `noise`, `freq` is how often a new random value is held, which gives it a pitch. */
+function renderSfx(ctx: BaseAudioContext, synth: SfxSynthConfig): AudioBuffer {
+  const rate = ctx.sampleRate;
+  const length = Math.max(1, Math.floor(synth.durationSec * rate));
+  const buffer = ctx.createBuffer(1, length, rate);
+  const data = buffer.getChannelData(0);
+  const attack = synth.attackSec ?? 0.005;
+  const endFreq = synth.endFreq ?? synth.freq;
+
+  let phase = 0;
+  let held = 0;
+  for (let i = 0; i < length; i += 1) {
+    const t = i / rate;
+    const progress = i / length;
+    const freq = synth.freq * Math.pow(endFreq / synth.freq, progress);
+    const previousPhase = phase;
+    phase += freq / rate;
+
+    let sample: number;
+    if (synth.wave === 'noise') {
+      if (Math.floor(phase) !== Math.floor(previousPhase) || i === 0) {
+        held = Math.random() * 2 - 1;
+      }
+      sample = held;
+    } else {
+      sample = oscillate(synth.wave, phase);
+    }
+
+    const envelope = t < attack ? t / attack : Math.pow(1 - (t - attack) / Math.max(1e-6, synth.durationSec - attack), 2);
+    data[i] = sample * envelope;
+  }
+  return buffer;
+}
+
+/** Renders one pass of a looping track; each note fades in and out so the loop point does not click. */
+function renderMusic(ctx: BaseAudioContext, synth: MusicSynthConfig): AudioBuffer {
+  const rate = ctx.sampleRate;
+  const noteLength = Math.max(1, Math.floor(synth.noteSec * rate));
+  const buffer = ctx.createBuffer(1, noteLength * synth.notes.length, rate);
+  const data = buffer.getChannelData(0);
+  const wave = synth.wave === 'noise' ? 'sine' : synth.wave;
+
+  synth.notes.forEach((freq, noteIndex) => {
+    const offset = noteIndex * noteLength;
+    for (let i = 0; i < noteLength; i += 1) {
+      const t = i / rate;
+      const envelope = Math.min(1, t / NOTE_ATTACK_SEC) * Math.pow(1 - i / noteLength, 1.5);
+      data[offset + i] = oscillate(wave, (freq * i) / rate) * envelope * 0.5;
+    }
+  });
+  return buffer;
+}
+
+/** Fixed set of gain slots per effect; a new shot takes a free slot or cuts the oldest voice. */
+class VoicePool {
+  private readonly slots: Array<{ gain: GainNode; source: AudioBufferSourceNode | null; startedAt: number }>;
+
+  constructor(ctx: AudioContext, bus: AudioNode, size: number, volume: number) {
+    this.slots = Array.from({ length: size }, () => {
+      const gain = ctx.createGain();
+      gain.gain.value = volume;
+      gain.connect(bus);
+      return { gain, source: null, startedAt: 0 };
+    });
+  }
+
+  play(ctx: AudioContext, buffer: AudioBuffer): void {
+    const slot = this.slots.find((item) => item.source === null)
+      ?? this.slots.reduce((oldest, item) => (item.startedAt < oldest.startedAt ? item : oldest));
+    slot.source?.stop();
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(slot.gain);
+    source.onended = () => {
+      source.disconnect();
+      if (slot.source === source) {
+        slot.source = null;
+      }
+    };
+    slot.source = source;
+    slot.startedAt = ctx.currentTime;
+    source.start();
+  }
+}
+
+/** Player-side levels in 0..1 on top of the mix in `audio.json`. */
+export interface AudioVolumes {
+  master: number;
+  music: number;
+  sfx: number;
+}
+
+interface MusicVoice {
+  name: MusicTrackName;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * WebAudio playback for the effects and music listed in `audio.json`. Nothing is created until the first user gesture
+ * (browser autoplay policy); calls made before that are dropped, except the requested music which starts on unlock.
+ */
 export class AudioManager {
   private muted = false;
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private readonly sfxBuffers = new Map<SfxName, AudioBuffer>();
+  private readonly musicBuffers = new Map<MusicTrackName, AudioBuffer>();
+  private readonly pools = new Map<SfxName, VoicePool>();
+  private music: MusicVoice | null = null;
+  private wantedMusic: MusicTrackName | null = null;
+  private volumes: AudioVolumes = { master: 1, music: 1, sfx: 1 };
+
+  constructor(private readonly config: AudioConfig) {}
+
+  bindUnlock(target: Window): void {
+    const unlock = (): void => {
+      for (const type of UNLOCK_EVENTS) {
+        target.removeEventListener(type, unlock, true);
+      }
+      this.unlock();
+    };
+    for (const type of UNLOCK_EVENTS) {
+      target.addEventListener(type, unlock, true);
+    }
+  }
 
   setMuted(muted: boolean): void {
     this.muted = muted;
+    if (this.ctx && this.master) {
+      const now = this.ctx.currentTime;
+      this.master.gain.cancelScheduledValues(now);
+      this.master.gain.setValueAtTime(this.master.gain.value, now);
+      this.master.gain.linearRampToValueAtTime(this.masterLevel(), now + MUTE_RAMP_SEC);
+    }
+  }
+
+  setVolumes(volumes: AudioVolumes): void {
+    this.volumes = { ...volumes };
+    if (!this.ctx || !this.master || !this.musicBus || !this.sfxBus) {
+      return;
+    }
+    const now = this.ctx.currentTime;
+    const levels: Array<[GainNode, number]> = [
+      [this.master, this.masterLevel()],
+      [this.musicBus, this.config.musicVolume * volumes.music],
+      [this.sfxBus, this.config.sfxVolume * volumes.sfx]
+    ];
+    for (const [node, level] of levels) {
+      node.gain.cancelScheduledValues(now);
+      node.gain.setValueAtTime(node.gain.value, now);
+      node.gain.linearRampToValueAtTime(level, now + MUTE_RAMP_SEC);
+    }
   }
 
   isMuted(): boolean {
     return this.muted;
   }
 
-  playSfx(_name: SfxName): void {
-    if (this.muted) {
+  playSfx(name: SfxName): void {
+    if (this.muted || this.volumes.master <= 0 || this.volumes.sfx <= 0 || !this.ctx || this.ctx.state !== 'running') {
       return;
     }
+    const buffer = this.sfxBuffers.get(name);
+    const pool = this.pools.get(name);
+    if (buffer && pool) {
+      pool.play(this.ctx, buffer);
+    }
+  }
 
-    // Stub: later this is where named sound effects will be resolved and played.
+  /** Crossfades to `name`; the same track keeps playing untouched. */
+  playMusic(name: MusicTrackName): void {
+    this.wantedMusic = name;
+    const { ctx, musicBus } = this;
+    const buffer = this.musicBuffers.get(name);
+    if (!ctx || !musicBus || !buffer || this.music?.name === name) {
+      return;
+    }
+
+    const now = ctx.currentTime;
+    const fadeEnd = now + this.config.crossfadeSec;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(this.config.music[name]?.volume ?? 1, fadeEnd);
+    gain.connect(musicBus);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(gain);
+    source.start(now);
+
+    const previous = this.music;
+    if (previous) {
+      previous.gain.gain.cancelScheduledValues(now);
+      previous.gain.gain.setValueAtTime(previous.gain.gain.value, now);
+      previous.gain.gain.linearRampToValueAtTime(0, fadeEnd);
+      previous.source.onended = () => previous.gain.disconnect();
+      previous.source.stop(fadeEnd);
+    }
+    this.music = { name, source, gain };
   }
 
-  startMusic(): void {
-    if (this.muted) {
+  private unlock(): void {
+    if (this.ctx) {
+      void this.ctx.resume();
       return;
     }
 
-    // Stub: later this is where background music will be initialized/looped.
+    const Ctor = window.AudioContext
+      ?? (window as unknown as { webkitAudioContext?: AudioContextCtor }).webkitAudioContext;
+    if (!Ctor) {
+      return;
+    }
+
+    const ctx = new Ctor();
+    this.ctx = ctx;
+    this.master = ctx.createGain();
+    this.master.gain.value = this.masterLevel();
+    this.master.connect(ctx.destination);
+    this.musicBus = ctx.createGain();
+    this.musicBus.gain.value = this.config.musicVolume * this.volumes.music;
+    this.musicBus.connect(this.master);
+    this.sfxBus = ctx.createGain();
+    this.sfxBus.gain.value = this.config.sfxVolume * this.volumes.sfx;
+    this.sfxBus.connect(this.master);
+
+    for (const [name, sfx] of Object.entries(this.config.sfx) as Array<[SfxName, AudioConfig['sfx'][string]]>) {
+      this.sfxBuffers.set(name, renderSfx(ctx, sfx.synth));
+      this.pools.set(name, new VoicePool(ctx, this.sfxBus, sfx.voices ?? 2, sfx.volume ?? 1));
+      if (sfx.src) {
+        void this.loadFile(sfx.src).then((buffer) => buffer && this.sfxBuffers.set(name, buffer));
+      }
+    }
+    for (const [name, track] of Object.entries(this.config.music) as Array<[MusicTrackName, AudioConfig['music'][string]]>) {
+      this.musicBuffers.set(name, renderMusic(ctx, track.synth));
+      if (track.src) {
+        void this.loadFile(track.src).then((buffer) => buffer && this.musicBuffers.set(name, buffer));
+      }
+    }
+
+    void ctx.resume();
+    if (this.wantedMusic) {
+      this.playMusic(this.wantedMusic);
+    }
+  }
+
+  private masterLevel(): number {
+    return this.muted ? 0 : this.volumes.master;
+  }
+
+  /** Decoded file, or null (with a warning) so the synth version stays in place. */
+  private async loadFile(src: string): Promise<AudioBuffer | null> {
+    if (!this.ctx) {
+      return null;
+    }
+    try {
+      const response = await fetch(new URL(src, document.baseURI));
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await this.ctx.decodeAudioData(await response.arrayBuffer());
+    } catch (error) {
+      console.warn(`Audio file "${src}" unavailable, using the synth fallback`, error);
+      return null;
+    }
   }
 }
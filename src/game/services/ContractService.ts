@@ -0,0 +1,105 @@
+import { dayKey } from '../core/Dates';
+import type { ContractSaveState, DailyContract, SaveData } from '../types/config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CONTRACTS_PER_DAY = 3;
+
+export interface ContractView {
+  contract: DailyContract;
+  progress: number;
+  target: number;
+  completed: boolean;
+  claimed: boolean;
+}
+
+export class ContractService {
+  private readonly perDay: number;
+  private runCounters: Record<string, number> = {};
+
+  constructor(private readonly contracts: DailyContract[], perDay = DEFAULT_CONTRACTS_PER_DAY) {
+    this.perDay = Math.max(0, Math.min(contracts.length, Math.floor(perDay)));
+  }
+
+  static emptyState(): ContractSaveState {
+    return { day: '', progress: {}, claimed: [] };
+  }
+
+  /** Today's contracts: a window over the JSON list that advances by `perDay` each UTC day. */
+  activeFor(date: Date = new Date()): DailyContract[] {
+    if (this.perDay === 0) {
+      return [];
+    }
+
+    const dayIndex = Math.floor(date.getTime() / DAY_MS);
+    const start = (dayIndex * this.perDay) % this.contracts.length;
+    const active: DailyContract[] = [];
+    for (let i = 0; i < this.perDay; i += 1) {
+      active.push(this.contracts[(start + i) % this.contracts.length] as DailyContract);
+    }
+    return active;
+  }
+
+  /** Drops yesterday's progress; returns true when the save was changed. */
+  refresh(save: SaveData, date: Date = new Date()): boolean {
+    const today = dayKey(date);
+    if (save.contracts.day === today) {
+      return false;
+    }
+    save.contracts = { ...ContractService.emptyState(), day: today };
+    return true;
+  }
+
+  beginRun(): void {
+    this.runCounters = {};
+  }
+
+  /** Adds to a counter and returns the contracts that became complete because of it. */
+  record(save: SaveData, counter: string, amount = 1): DailyContract[] {
+    if (amount <= 0) {
+      return [];
+    }
+
+    this.refresh(save);
+    const before = this.list(save);
+    this.runCounters[counter] = (this.runCounters[counter] ?? 0) + amount;
+
+    for (const contract of this.activeFor()) {
+      if (contract.objective.type !== counter) {
+        continue;
+      }
+      const current = save.contracts.progress[contract.id] ?? 0;
+      save.contracts.progress[contract.id] = contract.objective.scope === 'run'
+        ? Math.max(current, this.runCounters[counter] ?? 0)
+        : current + amount;
+    }
+
+    return this.list(save)
+      .filter((view, index) => view.completed && !before[index]?.completed)
+      .map((view) => view.contract);
+  }
+
+  claim(save: SaveData, contractId: string): number {
+    const view = this.list(save).find((item) => item.contract.id === contractId);
+    if (!view || !view.completed || view.claimed) {
+      return 0;
+    }
+
+    save.contracts.claimed.push(contractId);
+    save.walletCoins += view.contract.reward;
+    return view.contract.reward;
+  }
+
+  list(save: SaveData): ContractView[] {
+    return this.activeFor().map((contract) => {
+      const target = Math.max(1, contract.objective.target);
+      const progress = Math.min(target, Math.floor(save.contracts.progress[contract.id] ?? 0));
+      return {
+        contract,
+        progress,
+        target,
+        completed: progress >= target,
+        claimed: save.contracts.claimed.includes(contract.id)
+      };
+    });
+  }
+}
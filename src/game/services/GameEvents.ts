@@ -0,0 +1,88 @@
+import type { LossCause } from '../core/RunSimulation';
+
+export type AdFormat = 'interstitial' | 'rewarded';
+/** Where in the flow an ad was offered. */
+export type AdPlacement = 'revive' | 'reward_x2' | 'restart';
+
+/**
+ * What `Game` reports about a play session. Payloads are flat and JSON-safe (ids, not config objects), so sinks can
+ * store or forward them as they are.
+ */
+export type GameEvent =
+  | { type: 'run_start'; seed: string; daily: boolean; upgrades: Record<string, number> }
+  /**
+   * A death, or the page closing mid-run (`quit`). A revived run reports again when it ends for good. `gates` lists the
+   * lasting effects active at the end, so drain deaths under DEBT can be told apart.
+   */
+  | {
+    type: 'run_end';
+    outcome: 'died' | 'quit';
+    cause: LossCause | null;
+    score: number;
+    durationSec: number;
+    revives: number;
+    gates: string[];
+  }
+  | { type: 'gate_offered'; left: string; right: string }
+  | { type: 'gate_chosen'; gate: string; applied: boolean }
+  | { type: 'collision'; obstacleId: string; penalty: number }
+  | { type: 'shield_absorbed'; obstacleId: string }
+  | { type: 'bribe_fired'; free: boolean; cost: number }
+  | { type: 'bribe_kill'; obstacleIds: string[] }
+  | { type: 'pickup'; value: number; souls: number }
+  | { type: 'revive' }
+  /** `completed`: the interstitial was shown, or the rewarded video paid out. */
+  | { type: 'ad_shown'; format: AdFormat; placement: AdPlacement; completed: boolean }
+  | { type: 'upgrade_bought'; branch: string; level: number; cost: number }
+  | { type: 'upgrade_respec'; branches: string[]; refund: number; fee: number };
+
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<K extends GameEventType> = Extract<GameEvent, { type: K }>;
+
+/** Receives every published event; `at` is the wall-clock time in ms. */
+export interface GameEventSink {
+  handle(event: GameEvent, at: number): void;
+}
+
+type Handler = (event: GameEvent, at: number) => void;
+
+/**
+ * Typed publish/subscribe between `Game` and whoever wants to know what happened: analytics sinks, and features that
+ * react to play without living inside the frame loop. A failing subscriber is logged and skipped, never allowed to
+ * break the game.
+ */
+export class GameEventBus {
+  private readonly sinks: GameEventSink[] = [];
+  private readonly handlers = new Map<GameEventType, Handler[]>();
+
+  addSink(sink: GameEventSink): void {
+    this.sinks.push(sink);
+  }
+
+  /** Calls `handler` for every event of `type`. Returns a function that unsubscribes it. */
+  on<K extends GameEventType>(type: K, handler: (event: GameEventOf<K>, at: number) => void): () => void {
+    const wrapped = handler as Handler;
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), wrapped]);
+    return () => {
+      this.handlers.set(type, (this.handlers.get(type) ?? []).filter((item) => item !== wrapped));
+    };
+  }
+
+  publish(event: GameEvent): void {
+    const at = Date.now();
+    for (const sink of this.sinks) {
+      this.deliver(() => sink.handle(event, at), event);
+    }
+    for (const handler of this.handlers.get(event.type) ?? []) {
+      this.deliver(() => handler(event, at), event);
+    }
+  }
+
+  private deliver(call: () => void, event: GameEvent): void {
+    try {
+      call();
+    } catch (error) {
+      console.warn(`Game event subscriber failed on ${event.type}`, error);
+    }
+  }
+}
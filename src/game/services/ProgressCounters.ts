@@ -0,0 +1,26 @@
+/**
+ * Counters the game reports while playing. Contracts and achievements name them in JSON; `gates_passed`, `bribe_kills`
+ * and `bosses_defeated` also come narrowed to one gate, obstacle or boss, e.g. `gates_passed:DEBT`.
+ */
+export const PROGRESS_COUNTERS = [
+  'obols_collected',
+  'souls_collected',
+  'gates_passed',
+  'bribe_kills',
+  'distance',
+  'runs_finished',
+  'seconds_at_one_obol',
+  'bosses_defeated'
+] as const;
+
+export type ProgressCounter = (typeof PROGRESS_COUNTERS)[number];
+
+/** Data files whose ids qualify a counter. */
+export type CounterSource = 'gates' | 'obstacles' | 'bosses';
+
+/** Counters that accept a `:<id>` qualifier, with the data file the id must come from. */
+export const QUALIFIED_COUNTERS: Partial<Record<ProgressCounter, CounterSource>> = {
+  gates_passed: 'gates',
+  bribe_kills: 'obstacles',
+  bosses_defeated: 'bosses'
+};
@@ -0,0 +1,58 @@
+import type { PurchaseSaveState, SaveData, ShopOfferConfig, UpgradeBranchConfig } from '../types/config';
+
+/** Tokens only need to outlive the gap between granting and consuming, so the ledger keeps the most recent ones. */
+const GRANTED_TOKEN_LIMIT = 100;
+
+export class PurchaseService {
+  constructor(
+    private readonly offers: ShopOfferConfig[],
+    private readonly upgrades: UpgradeBranchConfig[]
+  ) {}
+
+  static emptyState(): PurchaseSaveState {
+    return { owned: [], grantedTokens: [] };
+  }
+
+  offerFor(productId: string): ShopOfferConfig | undefined {
+    return this.offers.find((offer) => offer.productId === productId);
+  }
+
+  /** Offers the shop lists: `once` and `permanent` ones disappear after they are bought. */
+  available(save: SaveData): ShopOfferConfig[] {
+    return this.offers.filter((offer) => (offer.kind ?? 'consumable') === 'consumable' || !save.purchases.owned.includes(offer.id));
+  }
+
+  hasNoInterstitials(save: SaveData): boolean {
+    return this.offers.some((offer) => offer.grant.noInterstitials && save.purchases.owned.includes(offer.id));
+  }
+
+  /** `permanent` purchases stay unconsumed so the platform can restore them on another device. */
+  shouldConsume(offer: ShopOfferConfig): boolean {
+    return offer.kind !== 'permanent';
+  }
+
+  /**
+   * Applies an offer for a platform purchase. A token seen before is not granted again, which makes restoring
+   * unconsumed purchases on every boot safe. Returns true when the save changed.
+   */
+  grant(save: SaveData, offer: ShopOfferConfig, purchaseToken: string): boolean {
+    const kind = offer.kind ?? 'consumable';
+    const ownedBefore = save.purchases.owned.includes(offer.id);
+    if (kind !== 'consumable' && !ownedBefore) {
+      save.purchases.owned.push(offer.id);
+    }
+    if (save.purchases.grantedTokens.includes(purchaseToken)) {
+      return kind !== 'consumable' && !ownedBefore;
+    }
+
+    save.walletCoins += offer.grant.obols ?? 0;
+    for (const [branchId, levels] of Object.entries(offer.grant.upgrades ?? {})) {
+      const branch = this.upgrades.find((item) => item.id === branchId);
+      if (branch) {
+        save.upgrades[branchId] = Math.min(branch.levels.length, (save.upgrades[branchId] ?? 0) + levels);
+      }
+    }
+    save.purchases.grantedTokens = [...save.purchases.grantedTokens, purchaseToken].slice(-GRANTED_TOKEN_LIMIT);
+    return true;
+  }
+}
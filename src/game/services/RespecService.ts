@@ -0,0 +1,72 @@
+import type { SaveData, UpgradeBranchConfig } from '../types/config';
+
+/** When `economy.respecFee` is not set. */
+export const DEFAULT_RESPEC_FEE = 0.2;
+/** Respecs that cost nothing; `respecFee` applies from the next one. */
+const FREE_RESPECS = 1;
+
+export interface RespecLine {
+  branch: UpgradeBranchConfig;
+  /** Level the branch is at now; a respec takes it back to 0. */
+  levels: number;
+  /** Shop price of those levels. */
+  spent: number;
+}
+
+/** Exactly what a respec gives back; the confirmation dialog lists it and `apply` pays it out. */
+export interface RespecQuote {
+  lines: RespecLine[];
+  spent: number;
+  /** Kept back from `spent`: `feeRate` of it, rounded up, or 0 on a free respec. */
+  fee: number;
+  feeRate: number;
+  refund: number;
+  free: boolean;
+}
+
+export class RespecService {
+  constructor(
+    private readonly upgrades: UpgradeBranchConfig[],
+    private readonly feeRate: number = DEFAULT_RESPEC_FEE
+  ) {}
+
+  /**
+   * What respeccing `branchId`, or every branch when null, would give back. Levels count at their shop price,
+   * including ones that came with a purchase. Null when there is nothing to respec.
+   */
+  quote(save: SaveData, branchId: string | null): RespecQuote | null {
+    const lines: RespecLine[] = [];
+    for (const branch of this.upgrades) {
+      const levels = Math.min(save.upgrades[branch.id] ?? 0, branch.levels.length);
+      if ((branchId === null || branch.id === branchId) && levels > 0) {
+        const spent = branch.levels.slice(0, levels).reduce((sum, level) => sum + level.cost, 0);
+        lines.push({ branch, levels, spent });
+      }
+    }
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const spent = lines.reduce((sum, line) => sum + line.spent, 0);
+    const free = save.respecs < FREE_RESPECS;
+    const fee = free ? 0 : Math.ceil(spent * this.feeRate);
+    return { lines, spent, fee, feeRate: this.feeRate, refund: spent - fee, free };
+  }
+
+  /**
+   * Pays out `quote` and takes its branches back to level 0. Bumping `respecs` is what tells `mergeSaves` the lower
+   * levels are deliberate, so a stale copy cannot bring them back on top of the refund. Returns false, changing
+   * nothing, when the save no longer matches the quote.
+   */
+  apply(save: SaveData, quote: RespecQuote): boolean {
+    if (quote.lines.some((line) => save.upgrades[line.branch.id] !== line.levels)) {
+      return false;
+    }
+    for (const line of quote.lines) {
+      save.upgrades[line.branch.id] = 0;
+    }
+    save.walletCoins += quote.refund;
+    save.respecs += 1;
+    return true;
+  }
+}
@@ -0,0 +1,28 @@
+import type { RunRecords } from '../types/config';
+
+/** Personal bests kept next to `bestScore`; the run summary highlights the ones a run beats. */
+export const RUN_RECORD_KEYS = ['bestEarnings', 'mostSouls', 'longestRunSec'] as const satisfies ReadonlyArray<keyof RunRecords>;
+
+export type RunRecordKey = (typeof RUN_RECORD_KEYS)[number];
+
+export function emptyRecords(): RunRecords {
+  return { bestEarnings: 0, mostSouls: 0, longestRunSec: 0 };
+}
+
+/**
+ * Raises every record the run beat and returns those keys. A first value is stored but not returned: nothing was
+ * beaten, so the summary has nothing to celebrate yet.
+ */
+export function updateRecords(records: RunRecords, run: RunRecords): RunRecordKey[] {
+  const beaten: RunRecordKey[] = [];
+  for (const key of RUN_RECORD_KEYS) {
+    if (run[key] <= records[key]) {
+      continue;
+    }
+    if (records[key] > 0) {
+      beaten.push(key);
+    }
+    records[key] = run[key];
+  }
+  return beaten;
+}
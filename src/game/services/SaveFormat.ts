@@ -0,0 +1,258 @@
+import type {
+  AchievementSaveState,
+  ContractSaveState,
+  PurchaseSaveState,
+  RunRecords,
+  SaveData,
+  UpgradeBranchConfig
+} from '../types/config';
+import { AchievementService } from './AchievementService';
+import { ContractService } from './ContractService';
+import { PurchaseService } from './PurchaseService';
+import { RUN_RECORD_KEYS, emptyRecords } from './RunRecords';
+import { normalizeSettings } from './Settings';
+
+/** Bump together with a new entry in `MIGRATIONS` whenever the meaning or shape of a saved field changes. */
+export const SAVE_VERSION = 8;
+
+type SavePayload = Record<string, unknown>;
+
+interface SaveMigration {
+  /** Version this step reads; it produces `from + 1`. */
+  from: number;
+  migrate(save: SavePayload): SavePayload;
+}
+
+/** Ordered chain; a payload runs every step from its own version up to `SAVE_VERSION`. */
+const MIGRATIONS: SaveMigration[] = [
+  {
+    // Unversioned payloads: the original bests/wallet/upgrades, optionally with daily contracts.
+    from: 1,
+    migrate: (save) => ({
+      ...save,
+      contracts: save.contracts ?? ContractService.emptyState()
+    })
+  },
+  {
+    // Write metadata for cloud/local merging; older copies count as the oldest possible write.
+    from: 2,
+    migrate: (save) => ({
+      ...save,
+      revision: 0,
+      savedAt: 0,
+      deviceId: ''
+    })
+  },
+  {
+    // Player settings; the language picked in the menu used to sit at the top level.
+    from: 3,
+    migrate: ({ language, ...save }) => ({
+      ...save,
+      settings: typeof language === 'string' ? { language } : {}
+    })
+  },
+  {
+    // In-app purchases: owned offers and the ledger of granted purchase tokens.
+    from: 4,
+    migrate: (save) => ({
+      ...save,
+      purchases: PurchaseService.emptyState()
+    })
+  },
+  {
+    // Achievements: unlocked ids and lifetime counters. Older saves start counting from zero.
+    from: 5,
+    migrate: (save) => ({
+      ...save,
+      achievements: AchievementService.emptyState()
+    })
+  },
+  {
+    // Personal bests for the run summary. Only `bestScore` was kept before, so the others start from zero.
+    from: 6,
+    migrate: (save) => ({
+      ...save,
+      records: emptyRecords()
+    })
+  },
+  {
+    // Upgrade respecs. Nobody could respec before, so every copy starts at zero.
+    from: 7,
+    migrate: (save) => ({
+      ...save,
+      respecs: 0
+    })
+  }
+];
+
+/** The payload cannot be turned into a `SaveData` without guessing; the caller quarantines it. */
+export class SaveFormatError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'SaveFormatError';
+  }
+}
+
+function isRecord(value: unknown): value is SavePayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Accepts numbers and numeric strings; NaN, infinities and negatives are rejected rather than clamped.
+ * `null` counts as invalid too: it is what `JSON.stringify` writes for NaN.
+ */
+function toAmount(value: unknown, field: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const amount = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+    throw new SaveFormatError(`${field} must be a non-negative number, got ${describe(value)}`);
+  }
+  return Math.floor(amount);
+}
+
+function migrate(payload: SavePayload): { save: SavePayload; fromVersion: number } {
+  const fromVersion = payload.version ?? 1;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new SaveFormatError(`version must be a positive integer, got ${describe(payload.version)}`);
+  }
+  if (fromVersion > SAVE_VERSION) {
+    throw new SaveFormatError(`version ${fromVersion} is newer than this build supports (${SAVE_VERSION})`);
+  }
+
+  let save = payload;
+  for (let version = fromVersion; version < SAVE_VERSION; version += 1) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) {
+      throw new SaveFormatError(`no migration from version ${version}`);
+    }
+    save = step.migrate(save);
+  }
+  return { save: { ...save, version: SAVE_VERSION }, fromVersion };
+}
+
+function readUpgrades(value: unknown, branches: UpgradeBranchConfig[]): Record<string, number> {
+  if (value !== undefined && !isRecord(value)) {
+    throw new SaveFormatError('upgrades must be an object');
+  }
+  const levels = value ?? {};
+  // Unknown branch ids are dropped; renames belong in a migration.
+  return Object.fromEntries(branches.map((branch) => {
+    const level = toAmount(levels[branch.id], `upgrades.${branch.id}`, 0);
+    return [branch.id, Math.min(level, branch.levels.length)];
+  }));
+}
+
+/** Contract state only lives for a day, so anything malformed is reset instead of failing the whole save. */
+function readContracts(value: unknown): ContractSaveState {
+  if (!isRecord(value) || typeof value.day !== 'string') {
+    return ContractService.emptyState();
+  }
+  const progress: Record<string, number> = {};
+  if (isRecord(value.progress)) {
+    for (const [counter, amount] of Object.entries(value.progress)) {
+      if (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0) {
+        progress[counter] = amount;
+      }
+    }
+  }
+  const claimed = Array.isArray(value.claimed)
+    ? [...new Set(value.claimed.filter((id): id is string => typeof id === 'string'))]
+    : [];
+  return { day: value.day, progress, claimed };
+}
+
+/** Paid state is never dropped wholesale: bad entries are skipped, and a missing list counts as empty. */
+function readPurchases(value: unknown): PurchaseSaveState {
+  if (!isRecord(value)) {
+    return PurchaseService.emptyState();
+  }
+  const strings = (list: unknown): string[] => (Array.isArray(list)
+    ? [...new Set(list.filter((item): item is string => typeof item === 'string'))]
+    : []);
+  return { owned: strings(value.owned), grantedTokens: strings(value.grantedTokens) };
+}
+
+/** Like contracts: malformed entries are dropped one by one rather than failing the save. */
+function readAchievements(value: unknown): AchievementSaveState {
+  if (!isRecord(value)) {
+    return AchievementService.emptyState();
+  }
+  const counters: Record<string, number> = {};
+  if (isRecord(value.counters)) {
+    for (const [counter, amount] of Object.entries(value.counters)) {
+      if (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0) {
+        counters[counter] = amount;
+      }
+    }
+  }
+  const unlocked = Array.isArray(value.unlocked)
+    ? [...new Set(value.unlocked.filter((id): id is string => typeof id === 'string'))]
+    : [];
+  return { unlocked, counters };
+}
+
+/** Records are only bragging rights, so a malformed one is reset to zero rather than failing the save. */
+function readRecords(value: unknown): RunRecords {
+  const records = emptyRecords();
+  if (!isRecord(value)) {
+    return records;
+  }
+  for (const key of RUN_RECORD_KEYS) {
+    const amount = value[key];
+    if (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0) {
+      records[key] = amount;
+    }
+  }
+  return records;
+}
+
+export interface ParsedSave {
+  save: SaveData;
+  /** Version the payload was written with; lower than `SAVE_VERSION` means it was migrated. */
+  fromVersion: number;
+}
+
+/**
+ * Turns a stored payload (object or JSON string, local or cloud) into a current `SaveData`.
+ * Throws `SaveFormatError` when the payload is unreadable or holds values that would corrupt progress.
+ */
+export function parseSave(raw: unknown, branches: UpgradeBranchConfig[]): ParsedSave {
+  let payload = raw;
+  if (typeof raw === 'string') {
+    try {
+      payload = JSON.parse(raw) as unknown;
+    } catch {
+      throw new SaveFormatError('payload is not valid JSON');
+    }
+  }
+  if (!isRecord(payload)) {
+    throw new SaveFormatError(`payload must be an object, got ${describe(payload)}`);
+  }
+
+  const { save, fromVersion } = migrate(payload);
+  return {
+    save: {
+      version: SAVE_VERSION,
+      revision: toAmount(save.revision, 'revision', 0),
+      savedAt: toAmount(save.savedAt, 'savedAt', 0),
+      deviceId: typeof save.deviceId === 'string' ? save.deviceId : '',
+      bestScore: toAmount(save.bestScore, 'bestScore', 0),
+      walletCoins: toAmount(save.walletCoins, 'walletCoins', 0),
+      upgrades: readUpgrades(save.upgrades, branches),
+      respecs: toAmount(save.respecs, 'respecs', 0),
+      contracts: readContracts(save.contracts),
+      settings: normalizeSettings(save.settings),
+      purchases: readPurchases(save.purchases),
+      achievements: readAchievements(save.achievements),
+      records: readRecords(save.records)
+    },
+    fromVersion
+  };
+}
@@ -0,0 +1,138 @@
+import type { AchievementSaveState, PurchaseSaveState, RunRecords, SaveData } from '../types/config';
+import { RUN_RECORD_KEYS } from './RunRecords';
+
+export interface SaveConflict {
+  local: SaveData;
+  cloud: SaveData;
+  reason: string;
+}
+
+export type SaveMergeResult =
+  | { status: 'merged'; save: SaveData }
+  | { status: 'conflict'; conflict: SaveConflict };
+
+function sortedEntries<T>(record: Record<string, T>): Array<[string, T]> {
+  return Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+}
+
+/** Everything the player would notice, ignoring write metadata and key order. */
+export function progressKey(save: SaveData): string {
+  return JSON.stringify([
+    save.bestScore,
+    save.walletCoins,
+    sortedEntries(save.upgrades),
+    save.respecs,
+    save.contracts.day,
+    sortedEntries(save.contracts.progress),
+    [...save.contracts.claimed].sort(),
+    save.settings,
+    [...save.purchases.owned].sort(),
+    [...save.purchases.grantedTokens].sort(),
+    [...save.achievements.unlocked].sort(),
+    sortedEntries(save.achievements.counters),
+    RUN_RECORD_KEYS.map((key) => save.records[key])
+  ]);
+}
+
+/** Unlocks are never lost and each lifetime counter keeps the higher total. */
+function mergeAchievements(a: AchievementSaveState, b: AchievementSaveState): AchievementSaveState {
+  const counters: Record<string, number> = { ...a.counters };
+  for (const [counter, amount] of Object.entries(b.counters)) {
+    counters[counter] = Math.max(counters[counter] ?? 0, amount);
+  }
+  return { unlocked: [...new Set([...a.unlocked, ...b.unlocked])], counters };
+}
+
+/** Every record keeps the better of both copies, like `bestScore`. */
+function mergeRecords(a: RunRecords, b: RunRecords): RunRecords {
+  return {
+    bestEarnings: Math.max(a.bestEarnings, b.bestEarnings),
+    mostSouls: Math.max(a.mostSouls, b.mostSouls),
+    longestRunSec: Math.max(a.longestRunSec, b.longestRunSec)
+  };
+}
+
+/** Purchases are paid for, so both copies' owned offers and granted tokens always survive, conflicts included. */
+export function mergePurchases(a: PurchaseSaveState, b: PurchaseSaveState): PurchaseSaveState {
+  return {
+    owned: [...new Set([...a.owned, ...b.owned])],
+    grantedTokens: [...new Set([...a.grantedTokens, ...b.grantedTokens])]
+  };
+}
+
+/**
+ * The copy whose wallet, contracts and settings win, or null when revision and timestamp point at different copies
+ * (two devices played from the same base) or cannot tell them apart.
+ */
+function newerCopy(local: SaveData, cloud: SaveData): SaveData | null {
+  if (local.revision === cloud.revision) {
+    return null;
+  }
+  const byRevision = local.revision > cloud.revision ? local : cloud;
+  const older = byRevision === local ? cloud : local;
+  // One device writes revisions in order, so its clock does not matter.
+  if (byRevision.deviceId === older.deviceId) {
+    return byRevision;
+  }
+  if (byRevision.savedAt > 0 && older.savedAt > 0 && byRevision.savedAt < older.savedAt) {
+    return null;
+  }
+  return byRevision;
+}
+
+/**
+ * Merge rules: best score and records are the max of both, every upgrade branch keeps the higher level, purchases and achievement unlocks are united,
+ * and the wallet (with contracts and settings) comes from the newer revision. The result carries the higher revision so the next write
+ * supersedes both copies.
+ *
+ * A respec lowers levels on purpose and refunds them into the wallet, so when the copies have seen different respecs the
+ * levels come only from the newer copy, and only if it is the one with more respecs; otherwise it is a conflict. Taking
+ * the max there would hand back the levels on top of the refund, e.g. after the respec reached local storage but not the cloud.
+ */
+export function mergeSaves(local: SaveData, cloud: SaveData): SaveMergeResult {
+  const revision = Math.max(local.revision, cloud.revision);
+  if (progressKey(local) === progressKey(cloud)) {
+    return { status: 'merged', save: { ...(local.revision >= cloud.revision ? local : cloud), revision } };
+  }
+
+  const newer = newerCopy(local, cloud);
+  if (!newer) {
+    const reason = local.revision === cloud.revision
+      ? `both copies are at revision ${revision}`
+      : 'the copy with the higher revision was written earlier';
+    return { status: 'conflict', conflict: { local, cloud, reason } };
+  }
+
+  const respecs = Math.max(local.respecs, cloud.respecs);
+  if (newer.respecs !== respecs) {
+    return { status: 'conflict', conflict: { local, cloud, reason: 'upgrades were respecced on the older copy' } };
+  }
+
+  const upgrades: Record<string, number> = { ...newer.upgrades };
+  if (local.respecs === cloud.respecs) {
+    for (const source of [local, cloud]) {
+      for (const [branch, level] of Object.entries(source.upgrades)) {
+        upgrades[branch] = Math.max(upgrades[branch] ?? 0, level);
+      }
+    }
+  }
+
+  return {
+    status: 'merged',
+    save: {
+      ...newer,
+      revision,
+      bestScore: Math.max(local.bestScore, cloud.bestScore),
+      upgrades,
+      contracts: {
+        day: newer.contracts.day,
+        progress: { ...newer.contracts.progress },
+        claimed: [...newer.contracts.claimed]
+      },
+      settings: { ...newer.settings },
+      purchases: mergePurchases(local.purchases, cloud.purchases),
+      achievements: mergeAchievements(local.achievements, cloud.achievements),
+      records: mergeRecords(local.records, cloud.records)
+    }
+  };
+}
@@ -1,13 +1,29 @@
 import type { SaveData, UpgradeBranchConfig } from '../types/config';
+import { AchievementService } from './AchievementService';
+import { ContractService } from './ContractService';
+import { PurchaseService } from './PurchaseService';
+import { emptyRecords } from './RunRecords';
+import { SAVE_VERSION, parseSave } from './SaveFormat';
+import { mergePurchases, mergeSaves, progressKey, type SaveConflict } from './SaveMerge';
+import { DEFAULT_SETTINGS } from './Settings';
 
+// The `_v1` suffix predates the `version` field and stays so existing players keep their progress.
 export const SAVE_STORAGE_KEY = 'charons_gamble_save_v1';
+/** Last unreadable payload per source, kept for support instead of being silently overwritten. */
+export const SAVE_QUARANTINE_KEY = 'charons_gamble_save_quarantine';
+/** Per-device, never synced: tells apart copies written by different devices. */
+export const DEVICE_ID_STORAGE_KEY = 'charons_gamble_device_id';
 
 interface CloudSaveAdapter {
   saveCloudSave(save: SaveData): Promise<boolean>;
 }
 
+/** Asked when local and cloud copies cannot be merged automatically; resolves with the copy to keep. */
+export type SaveConflictResolver = (conflict: SaveConflict) => Promise<SaveData>;
+
 export class SaveService {
   private static cloudAdapter: CloudSaveAdapter | null = null;
+  private static cachedDeviceId: string | null = null;
 
   static setCloudAdapter(adapter: CloudSaveAdapter): void {
     SaveService.cloudAdapter = adapter;
@@ -15,36 +31,136 @@ export class SaveService {
 
   static defaults(upgrades: UpgradeBranchConfig[]): SaveData {
     return {
+      version: SAVE_VERSION,
+      revision: 0,
+      savedAt: 0,
+      deviceId: '',
       bestScore: 0,
       walletCoins: 0,
-      upgrades: Object.fromEntries(upgrades.map((upgrade) => [upgrade.id, 0]))
+      upgrades: Object.fromEntries(upgrades.map((upgrade) => [upgrade.id, 0])),
+      respecs: 0,
+      contracts: ContractService.emptyState(),
+      settings: { ...DEFAULT_SETTINGS },
+      purchases: PurchaseService.emptyState(),
+      achievements: AchievementService.emptyState(),
+      records: emptyRecords()
     };
   }
 
-  static load(upgrades: UpgradeBranchConfig[]): SaveData {
-    const defaults = SaveService.defaults(upgrades);
+  static deviceId(): string {
+    if (!SaveService.cachedDeviceId) {
+      let id: string | null = null;
+      try {
+        id = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+      } catch {
+        // Storage unavailable; fall through to a session-only id.
+      }
+      if (!id) {
+        id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+        try {
+          localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+        } catch {
+          // Same as above: the id only lives for this session.
+        }
+      }
+      SaveService.cachedDeviceId = id;
+    }
+    return SaveService.cachedDeviceId;
+  }
+
+  /**
+   * Reads the local and cloud copies and merges them (see `mergeSaves`). Old payloads are migrated, corrupt ones are
+   * quarantined and skipped. When the result differs from either copy it is written to both.
+   */
+  static async load(
+    upgrades: UpgradeBranchConfig[],
+    cloudPayload: unknown,
+    resolveConflict: SaveConflictResolver
+  ): Promise<SaveData> {
+    const local = SaveService.readLocal(upgrades);
+    const cloud = SaveService.readCloud(cloudPayload, upgrades);
+
+    if (!cloud) {
+      return local?.save ?? SaveService.defaults(upgrades);
+    }
+    if (!local) {
+      SaveService.write(cloud);
+      return cloud;
+    }
+
+    const result = mergeSaves(local.save, cloud);
+    const save = result.status === 'merged' ? result.save : await resolveConflict(result.conflict);
+    save.purchases = mergePurchases(local.save.purchases, cloud.purchases);
+    const key = progressKey(save);
+    if (key !== progressKey(local.save) || key !== progressKey(cloud)) {
+      save.revision = Math.max(local.save.revision, cloud.revision);
+      await SaveService.storeWithCloud(save);
+    } else if (local.migrated) {
+      SaveService.write(save);
+    }
+    return save;
+  }
 
+  private static readLocal(upgrades: UpgradeBranchConfig[]): { save: SaveData; migrated: boolean } | null {
+    let raw: string | null;
     try {
-      const raw = localStorage.getItem(SAVE_STORAGE_KEY);
-      if (!raw) {
-        return defaults;
+      raw = localStorage.getItem(SAVE_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const { save, fromVersion } = parseSave(raw, upgrades);
+      if (fromVersion < SAVE_VERSION) {
+        SaveService.write(save);
       }
+      return { save, migrated: fromVersion < SAVE_VERSION };
+    } catch (error) {
+      SaveService.quarantine('local', raw, error);
+      return null;
+    }
+  }
 
-      const parsed = JSON.parse(raw) as Partial<SaveData>;
-      return {
-        bestScore: parsed.bestScore ?? defaults.bestScore,
-        walletCoins: parsed.walletCoins ?? defaults.walletCoins,
-        upgrades: {
-          ...defaults.upgrades,
-          ...(parsed.upgrades ?? {})
-        }
+  private static readCloud(payload: unknown, upgrades: UpgradeBranchConfig[]): SaveData | null {
+    if (payload === null || payload === undefined) {
+      return null;
+    }
+    try {
+      return parseSave(payload, upgrades).save;
+    } catch (error) {
+      SaveService.quarantine('cloud', payload, error);
+      return null;
+    }
+  }
+
+  private static quarantine(source: 'local' | 'cloud', payload: unknown, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`Discarding unreadable ${source} save: ${reason}`);
+    try {
+      const existing = JSON.parse(localStorage.getItem(SAVE_QUARANTINE_KEY) ?? '{}') as Record<string, unknown>;
+      existing[source] = {
+        at: new Date().toISOString(),
+        reason,
+        payload: typeof payload === 'string' ? payload : JSON.stringify(payload)
       };
+      localStorage.setItem(SAVE_QUARANTINE_KEY, JSON.stringify(existing));
     } catch {
-      return defaults;
+      // Storage is full or unavailable; the warning above is all we can keep.
     }
   }
 
+  /** Stamps a new revision, time and this device on `data`, then writes it locally. */
   static store(data: SaveData): void {
+    data.revision += 1;
+    data.savedAt = Date.now();
+    data.deviceId = SaveService.deviceId();
+    SaveService.write(data);
+  }
+
+  private static write(data: SaveData): void {
     localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(data));
   }
 
@@ -56,8 +172,21 @@ export class SaveService {
     await SaveService.cloudAdapter.saveCloudSave(data);
   }
 
-  static async reset(upgrades: UpgradeBranchConfig[]): Promise<SaveData> {
-    const defaults = SaveService.defaults(upgrades);
+  /**
+   * Keeps the revision counter (so the reset wins over other copies), the respec count (which only grows, see
+   * `mergeSaves`), the settings and the purchases: neither is progress, and paid entitlements must survive.
+   */
+  static async reset(upgrades: UpgradeBranchConfig[], previous: SaveData): Promise<SaveData> {
+    const defaults: SaveData = {
+      ...SaveService.defaults(upgrades),
+      revision: previous.revision,
+      respecs: previous.respecs,
+      settings: { ...previous.settings },
+      purchases: {
+        owned: [...previous.purchases.owned],
+        grantedTokens: [...previous.purchases.grantedTokens]
+      }
+    };
     await SaveService.storeWithCloud(defaults);
     return defaults;
   }
@@ -0,0 +1,57 @@
+import { DEFAULT_STEERING_SPEED } from '../core/RunSimulation';
+import type { DragMode, GameSettings, ToastLevel } from '../types/config';
+
+export const DEFAULT_SETTINGS: Readonly<GameSettings> = {
+  masterVolume: 1,
+  musicVolume: 1,
+  sfxVolume: 1,
+  steeringSpeed: DEFAULT_STEERING_SPEED,
+  dragMode: 'absolute',
+  dragSensitivity: 1,
+  reducedMotion: false,
+  screenEffects: true,
+  toasts: 'all'
+};
+
+/** Slider ranges; stored values are clamped into them on load. */
+export const SETTINGS_RANGES = {
+  masterVolume: { min: 0, max: 1, step: 0.05 },
+  musicVolume: { min: 0, max: 1, step: 0.05 },
+  sfxVolume: { min: 0, max: 1, step: 0.05 },
+  steeringSpeed: { min: 200, max: 600, step: 10 },
+  dragSensitivity: { min: 0.5, max: 2, step: 0.05 }
+} as const;
+
+export type RangeSetting = keyof typeof SETTINGS_RANGES;
+
+export const DRAG_MODES: readonly DragMode[] = ['absolute', 'relative'];
+export const TOAST_LEVELS: readonly ToastLevel[] = ['all', 'important', 'none'];
+
+/** Settings are never worth rejecting a save over: every bad field falls back to its default on its own. */
+export function normalizeSettings(raw: unknown): GameSettings {
+  const source = typeof raw === 'object' && raw !== null ? raw as Record<string, unknown> : {};
+  const settings: GameSettings = { ...DEFAULT_SETTINGS };
+
+  for (const [key, range] of Object.entries(SETTINGS_RANGES) as Array<[RangeSetting, { min: number; max: number }]>) {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      settings[key] = Math.min(range.max, Math.max(range.min, value));
+    }
+  }
+  if (DRAG_MODES.includes(source.dragMode as DragMode)) {
+    settings.dragMode = source.dragMode as DragMode;
+  }
+  if (TOAST_LEVELS.includes(source.toasts as ToastLevel)) {
+    settings.toasts = source.toasts as ToastLevel;
+  }
+  if (typeof source.reducedMotion === 'boolean') {
+    settings.reducedMotion = source.reducedMotion;
+  }
+  if (typeof source.screenEffects === 'boolean') {
+    settings.screenEffects = source.screenEffects;
+  }
+  if (typeof source.language === 'string') {
+    settings.language = source.language;
+  }
+  return settings;
+}
@@ -1,3 +1,19 @@
+/** CLDR plural categories; `other` is mandatory, the rest depend on the language. */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export interface LocaleContent {
+  gates?: Record<string, { name?: string; description?: string; label?: string }>;
+  upgrades?: Record<string, { title?: string; levels?: Array<{ title?: string; shortDesc?: string }> }>;
+  contracts?: Record<string, string>;
+  offers?: Record<string, { title?: string; description?: string }>;
+  achievements?: Record<string, { title?: string; description?: string }>;
+  bosses?: Record<string, { name?: string; rewardDescription?: string }>;
+}
+
+/**
+ * One `ui_text_<lang>.json` file. Strings may contain `{placeholder}`s; plural entries are picked by count.
+ * Russian is the reference locale and has every key; other locales may leave keys out and fall back to it.
+ */
 export interface UiText {
   title: string;
   coinLabel: string;
@@ -7,24 +23,162 @@ export interface UiText {
   coinPickup: string;
   gateChosen: string;
   freeBribe: string;
-  paidBribe: string;
+  paidBribe: PluralForms;
   insufficientCoins: string;
   gameOver: string;
   revive: string;
   restart: string;
-  screen_menu?: string;
-  screen_shop?: string;
-  btn_start?: string;
-  btn_retry?: string;
-  lbl_wallet?: string;
-  lbl_best?: string;
-  btn_buy?: string;
-  btn_reset_progress?: string;
-  lbl_level?: string;
-  lbl_price?: string;
+  screen_menu: string;
+  screen_shop: string;
+  btn_start: string;
+  btn_daily: string;
+  lbl_seed: string;
+  btn_retry: string;
+  lbl_wallet: string;
+  lbl_best: string;
+  btn_buy: string;
+  btn_reset_progress: string;
+  lbl_level: string;
+  lbl_price: string;
+  screen_contracts: string;
+  btn_claim: string;
+  lbl_claimed: string;
+  contractDone: string;
+  screen_replays: string;
+  btn_replay_export: string;
+  btn_replay_play: string;
+  replayCopied: string;
+  replayNothing: string;
+  replayInvalid: string;
+  replayConfigMismatch: string;
+  replayFinished: string;
+  replayMatched: string;
+  replayDesync: string;
+  shieldAbsorbed: string;
+  gateAtLimit: string;
+  bossAppeared: string;
+  bossHeadPaid: string;
+  bossDefeated: string;
+  bossEscaped: string;
+  lbl_boss_timer: string;
+  pausedHidden: string;
+  resumedVisible: string;
+  reviveGranted: string;
+  x2Granted: string;
+  confirmReset: string;
+  progressReset: string;
+  walletInsufficient: string;
+  upgradeBought: string;
+  replaySummary: string;
+  hudScore: string;
+  btn_pause: string;
+  btn_resume: string;
+  btn_bribe: string;
+  btn_bribe_cooldown: string;
+  btn_bribe_free: string;
+  btn_bribe_timer: string;
+  btn_bribe_cost: PluralForms;
+  btn_reward_x2: string;
+  lbl_reward_x2_active: string;
+  lbl_controls: string;
+  lbl_shield: string;
+  lbl_max_level: string;
+  lbl_branch_complete: string;
+  lbl_all_bought: string;
+  btn_respec: string;
+  btn_respec_all: string;
+  btn_cancel: string;
+  screen_respec: string;
+  lbl_respec_body: string;
+  lbl_respec_line: string;
+  lbl_respec_fee: string;
+  lbl_respec_free: string;
+  lbl_respec_refund: string;
+  upgradesRespecced: string;
+  lbl_stat_shieldStart: string;
+  lbl_stat_shieldRegenSec: string;
+  lbl_stat_obstacleDamageMult: string;
+  lbl_stat_magnetMult: string;
+  lbl_stat_soulValueMult: string;
+  lbl_stat_doubleSoulChance: string;
+  lbl_stat_bribeCooldownMult: string;
+  lbl_stat_freeBribeEverySec: string;
+  lbl_stat_bribeSplashRadius: string;
+  lbl_stat_seconds: string;
+  lbl_stat_off: string;
+  lbl_language: string;
+  /** Stripped from gate names for the short labels drawn on the river. */
+  gatePrefix: string;
+  saveConflictTitle: string;
+  saveConflictBody: string;
+  saveConflictLocal: string;
+  saveConflictCloud: string;
+  saveConflictSummary: string;
+  screen_settings: string;
+  btn_settings: string;
+  btn_close: string;
+  btn_export_events: string;
+  lbl_summary_score: string;
+  lbl_summary_best: string;
+  lbl_summary_earnings: string;
+  lbl_summary_total: string;
+  lbl_earn_distance: string;
+  lbl_earn_souls: string;
+  lbl_earn_balance: string;
+  lbl_earn_x2: string;
+  lbl_summary_obols: string;
+  lbl_obols_start: string;
+  lbl_obols_pickups: string;
+  lbl_obols_gates: string;
+  lbl_obols_bosses: string;
+  lbl_obols_revive: string;
+  lbl_obols_drain: string;
+  lbl_obols_collision: string;
+  lbl_obols_bribe: string;
+  lbl_summary_gates: string;
+  lbl_summary_no_gates: string;
+  lbl_gate_at_limit: string;
+  lbl_cause_drain: string;
+  lbl_cause_collision: string;
+  lbl_cause_bribe: string;
+  lbl_record_score: string;
+  lbl_record_bestEarnings: string;
+  lbl_record_mostSouls: string;
+  lbl_record_longestRunSec: string;
+  lbl_master_volume: string;
+  lbl_music_volume: string;
+  lbl_sfx_volume: string;
+  lbl_steering_speed: string;
+  lbl_drag_mode: string;
+  opt_drag_absolute: string;
+  opt_drag_relative: string;
+  lbl_drag_sensitivity: string;
+  lbl_reduced_motion: string;
+  lbl_screen_effects: string;
+  lbl_toasts: string;
+  opt_toasts_all: string;
+  opt_toasts_important: string;
+  opt_toasts_none: string;
+  screen_leaderboard: string;
+  lbl_leaderboard_loading: string;
+  lbl_leaderboard_error: string;
+  lbl_leaderboard_empty: string;
+  lbl_leaderboard_anonymous: string;
+  btn_leaderboard_retry: string;
+  screen_premium: string;
+  lbl_premium_loading: string;
+  lbl_premium_unavailable: string;
+  offerBought: string;
+  purchaseCancelled: string;
+  purchasesRestored: string;
+  screen_achievements: string;
+  achievementUnlocked: string;
+  lbl_achievement_reward: string;
+  lbl_unlocked: string;
   ui_text?: {
     toasts?: Record<string, string[]>;
   };
+  content?: LocaleContent;
 }
 
 export interface DrainTier {
@@ -43,15 +197,36 @@ export interface EconomyConfig {
   gateIntervalSec: number;
   gateDurationSec: number;
   minInterstitialIntervalSec?: number;
+  dailyContractsPerDay?: number;
+  /** Share of the spent obols an upgrade respec keeps back, 0..1; the first respec is free. */
+  respecFee?: number;
 }
 
-export interface GateEffect {
+/** Effects that multiply together while several gates are active. */
+export interface GateMultipliers {
   collisionPenaltyMultiplier?: number;
   pickupMultiplier?: number;
   speedMultiplier?: number;
   drainMultiplier?: number;
+  magnetMultiplier?: number;
+  /** 0 makes bribes free. */
+  bribeCostMultiplier?: number;
 }
 
+export interface GateEffect extends GateMultipliers {
+  /** Instant: obols added (or taken, if negative) when the gate is taken. */
+  obols?: number;
+  /** Instant: shield charges added, on top of the upgrade maximum. */
+  shields?: number;
+  /** Left and right steering swap while active. */
+  mirrorControls?: boolean;
+  /** Opacity (0..1) of the fog over the river ahead while active. */
+  fog?: number;
+}
+
+/** Pairing never offers two `good` or two `bad` gates side by side; `mixed` goes with anything. */
+export type GatePolarity = 'good' | 'bad' | 'mixed';
+
 export interface GateConfig {
   id: string;
   name: string;
@@ -59,6 +234,42 @@ export interface GateConfig {
   durationSec: number;
   permanent?: boolean;
   effects: GateEffect;
+  /** Relative chance to be offered; default 1. */
+  weight?: number;
+  /** Not offered earlier in the run. */
+  minElapsedSec?: number;
+  /** Most copies of its effect active at once; a gate at the limit is not offered. */
+  maxStacks?: number;
+  /** Default `mixed`. */
+  polarity?: GatePolarity;
+  /** `ui_text.toasts` pool a line is picked from when the gate is taken. */
+  toast?: string;
+  /** Sprite id from `assets.json`, stretched over the gate; without one, or until it loads, a tinted box is drawn. */
+  sprite?: string;
+}
+
+/** Sideways motion on top of the river scroll. Speeds are px/s, frequencies Hz. */
+export type ObstacleMovement =
+  /** Weaves around its spawn lane. */
+  | { type: 'sine'; amplitude: number; frequency: number }
+  /** Steers toward the boat while still above it; `range` limits how far ahead it notices the boat. */
+  | { type: 'homing'; speed: number; range?: number }
+  /** Enters at a side edge and crosses the river at a fixed sideways speed. */
+  | { type: 'diagonal'; speed: number };
+
+export interface ObstacleSplit {
+  /** Obstacle id spawned in its place when a bribe destroys it. */
+  into: string;
+  count: number;
+  /** Sideways speed the pieces fly apart with. */
+  spreadSpeed: number;
+}
+
+export interface ObstacleBehavior {
+  movement?: ObstacleMovement;
+  /** Bribe hits needed to destroy it; 1 when unset. Ramming it with the boat always removes it. */
+  hp?: number;
+  split?: ObstacleSplit;
 }
 
 export interface ObstacleConfig {
@@ -66,20 +277,127 @@ export interface ObstacleConfig {
   radius: number;
   damage: number;
   color: string;
+  /** Relative spawn chance; 0 keeps it out of the random spawns (split pieces only). Default 1. */
+  spawnWeight?: number;
+  behavior?: ObstacleBehavior;
+  /** Sprite id from `assets.json`; drawn as a `color` circle without one or when it fails to load. */
+  sprite?: string;
 }
 
-export interface UpgradeEffect {
-  shieldStart?: number;
-  shieldRegenSec?: number;
-  obstacleDamageMult?: number;
-  magnetMult?: number;
-  soulValueMult?: number;
-  doubleSoulChance?: number;
-  bribeCooldownMult?: number;
-  freeBribeEverySec?: number;
-  bribeSplashRadius?: number;
+export interface IntervalRange {
+  min: number;
+  max: number;
 }
 
+/** Spawn settings from a point of the run on; the last stage whose `from` has been reached applies. */
+export interface SpawnStageConfig {
+  /** Seconds or distance (see `SpawnDirectorConfig.progress`) at which the stage starts. */
+  from: number;
+  obstacleIntervalSec: IntervalRange;
+  coinIntervalSec: IntervalRange;
+  /** Obstacle mix for this stage by id; unlisted obstacles do not spawn. Falls back to each `spawnWeight` when unset. */
+  obstacleWeights?: Record<string, number>;
+  /** Chance an obstacle spawn places a pattern instead. */
+  patternChance?: number;
+  /** Pattern ids by weight; every pattern with weight 1 when unset. */
+  patterns?: Record<string, number>;
+}
+
+export type SpawnPatternConfig =
+  /** Coins one after another, each `spacing` px further up and `slope` px to the side. */
+  | { id: string; type: 'coin_line'; count: number; spacing: number; slope?: number }
+  /** A row of obstacles across the river with one gap. */
+  | { id: string; type: 'wall'; obstacle: string; gapWidth?: number }
+  /** Walls whose gap alternates between the left and right half. */
+  | { id: string; type: 'slalom'; obstacle: string; rows: number; rowSpacing: number; gapWidth?: number };
+
+export interface SpawnDirectorConfig {
+  progress: 'elapsedSec' | 'distance';
+  /** Narrowest free lane kept in every obstacle row, px; also the default pattern gap. */
+  laneWidth: number;
+  /** Obstacles within this many px vertically count as one row for the lane check. */
+  rowDepth: number;
+  /** Nothing spawns within this many px of a gate row. */
+  gateClearance: number;
+  stages: SpawnStageConfig[];
+  patterns: SpawnPatternConfig[];
+}
+
+export interface BossHeadConfig {
+  id: string;
+  /** Horizontal offset from the middle of the river, px. */
+  offsetX: number;
+  radius: number;
+  /** Bribe hits that pay the head off. */
+  hp: number;
+}
+
+interface BossAttackBase {
+  /** Relative chance among the boss's attacks. */
+  weight?: number;
+  /** Warning time before the attack fires; the view shows where it will go. */
+  telegraphSec: number;
+  /** Shot size and speed (px, px/s); `damage` multiplies the collision penalty like an obstacle's. */
+  radius: number;
+  speed: number;
+  damage: number;
+}
+
+export type BossAttackConfig = BossAttackBase & (
+  /** Fan of shots from one head, centred straight down. */
+  | { type: 'volley'; count: number; spreadDeg: number }
+  /** Shots one after another at where the boat was when the telegraph started. */
+  | { type: 'aimed'; count: number; intervalSec: number }
+  /** A row of shots across the river with one gap. */
+  | { type: 'sweep'; gapWidth: number }
+);
+
+export interface BossRewardConfig {
+  obols: number;
+  /** Multipliers that stay for the rest of the run. */
+  runBonus?: GateMultipliers;
+}
+
+export interface BossConfig {
+  id: string;
+  name: string;
+  /** Shown with the payout, e.g. what `runBonus` does. */
+  rewardDescription: string;
+  color: string;
+  /** Distances the boss appears at, ascending. */
+  triggerDistances: number[];
+  /** After the last trigger distance, appears again every this many px. */
+  repeatEvery?: number;
+  /** Forward speed multiplier during the fight. */
+  scrollMultiplier: number;
+  /** Where the heads sit on screen once the boss has arrived, px from the top. */
+  y: number;
+  /** The boss leaves without paying out after this long. */
+  timeLimitSec?: number;
+  heads: BossHeadConfig[];
+  /** Added to every head's hp for each earlier encounter with this boss in the run. */
+  hpBonusPerEncounter?: number;
+  attackIntervalSec: IntervalRange;
+  attacks: BossAttackConfig[];
+  reward: BossRewardConfig;
+}
+
+export type UpgradeStat =
+  | 'shieldStart'
+  | 'shieldRegenSec'
+  | 'obstacleDamageMult'
+  | 'magnetMult'
+  | 'soulValueMult'
+  | 'doubleSoulChance'
+  | 'bribeCooldownMult'
+  | 'freeBribeEverySec'
+  | 'bribeSplashRadius';
+
+/** How one upgrade level changes a stat. Levels stack: every `add` is summed onto the base, then every `mul` applies. */
+export type StatModifier = { add: number } | { mul: number };
+
+export type UpgradeEffect = Partial<Record<UpgradeStat, StatModifier>>;
+
 export interface UpgradeLevelConfig {
   cost: number;
   title: string;
@@ -88,15 +406,147 @@ export interface UpgradeLevelConfig {
 }
 
 export interface UpgradeBranchConfig {
-  id: 'defense' | 'farm' | 'skills';
+  id: string;
   title: string;
   levels: UpgradeLevelConfig[];
 }
 
+export type SynthWave = 'sine' | 'square' | 'sawtooth' | 'triangle' | 'noise';
+
+/** Procedural one-shot: a pitch sweep from `freq` to `endFreq` under a short attack/decay envelope. */
+export interface SfxSynthConfig {
+  wave: SynthWave;
+  freq: number;
+  endFreq?: number;
+  durationSec: number;
+  attackSec?: number;
+}
+
+export interface SfxConfig {
+  /** Audio file URL relative to the page; the synth is used until it decodes, or when it fails to. */
+  src?: string;
+  volume?: number;
+  /** Simultaneous voices before the oldest one is cut. */
+  voices?: number;
+  synth: SfxSynthConfig;
+}
+
+/** Procedural loop: one note per `noteSec`, repeated. */
+export interface MusicSynthConfig {
+  wave: SynthWave;
+  notes: number[];
+  noteSec: number;
+}
+
+export interface MusicTrackConfig {
+  src?: string;
+  volume?: number;
+  synth: MusicSynthConfig;
+}
+
+/** Region of an atlas image, in image pixels. */
+export interface SpriteFrame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** One image holding several sprites; each frame name is a sprite id. */
+export interface TextureAtlasConfig {
+  /** Image URL relative to the page. */
+  src: string;
+  frames: Record<string, SpriteFrame>;
+}
+
+/**
+ * `assets.json`: every image the game loads before it starts. Sprite ids are the `images` keys plus every atlas frame
+ * name, and must be unique across both.
+ */
+export interface AssetManifest {
+  /** Sprite id to image URL relative to the page; the whole image is the sprite. */
+  images: Record<string, string>;
+  atlases: Record<string, TextureAtlasConfig>;
+  /** Sprite ids for the entities that have no data file of their own. */
+  boat?: string;
+  coin?: string;
+}
+
+export interface AudioConfig {
+  sfxVolume: number;
+  musicVolume: number;
+  crossfadeSec: number;
+  sfx: Record<string, SfxConfig>;
+  music: Record<string, MusicTrackConfig>;
+}
+
+export interface ContractObjective {
+  /** Counter name reported by the run, e.g. `obols_collected` or `gates_passed:DEBT`. */
+  type: string;
+  target: number;
+  /** `day` sums the counter over all runs of the day, `run` needs the target within one run. */
+  scope?: 'day' | 'run';
+}
+
 export interface DailyContract {
   id: string;
   title: string;
   reward: number;
+  objective: ContractObjective;
+}
+
+/**
+ * `consumable` can be bought again and again; `once` is consumed but remembered so the offer disappears;
+ * `permanent` is never consumed, so the platform keeps returning it as an owned purchase.
+ */
+export type ShopOfferKind = 'consumable' | 'once' | 'permanent';
+
+export interface ShopOfferGrant {
+  obols?: number;
+  /** Levels added per upgrade branch, capped at the branch maximum. */
+  upgrades?: Record<string, number>;
+  /** Skips the interstitial between runs. */
+  noInterstitials?: boolean;
+}
+
+export interface ShopOfferConfig {
+  id: string;
+  /** Product id in the platform catalog. */
+  productId: string;
+  title: string;
+  description: string;
+  kind?: ShopOfferKind;
+  grant: ShopOfferGrant;
+}
+
+export interface AchievementCondition {
+  /** Counter name, same vocabulary as contract objectives (`distance`, `gates_passed:DEBT`, ...). */
+  counter: string;
+  target: number;
+  /** `lifetime` (default) sums the counter over every run, `run` needs the target within one run. */
+  scope?: 'lifetime' | 'run';
+}
+
+export interface AchievementConfig {
+  id: string;
+  title: string;
+  description: string;
+  condition: AchievementCondition;
+  /** Obols credited on unlock. */
+  reward?: number;
+}
+
+export interface AchievementSaveState {
+  unlocked: string[];
+  /** Lifetime totals of every reported counter. */
+  counters: Record<string, number>;
+}
+
+/** Personal bests besides `bestScore`; see `services/RunRecords.ts`. */
+export interface RunRecords {
+  bestEarnings: number;
+  mostSouls: number;
+  longestRunSec: number;
 }
 
 export interface GameConfigData {
@@ -104,12 +554,70 @@ export interface GameConfigData {
   economy: EconomyConfig;
   gates: GateConfig[];
   obstacles: ObstacleConfig[];
+  spawnDirector: SpawnDirectorConfig;
+  bosses: BossConfig[];
   upgrades: UpgradeBranchConfig[];
   dailyContracts: DailyContract[];
+  audio: AudioConfig;
+  shopOffers: ShopOfferConfig[];
+  achievements: AchievementConfig[];
+  assets: AssetManifest;
+}
+
+export interface ContractSaveState {
+  day: string;
+  progress: Record<string, number>;
+  claimed: string[];
 }
 
 export interface SaveData {
+  /** Format version, see `SAVE_VERSION` and the migration chain in `SaveFormat.ts`. */
+  version: number;
+  /** Bumped on every write; together with `savedAt` decides which copy is newer when local and cloud disagree. */
+  revision: number;
+  /** Epoch milliseconds of the last write, 0 when unknown. */
+  savedAt: number;
+  /** Device that wrote this copy last. */
+  deviceId: string;
   bestScore: number;
   walletCoins: number;
   upgrades: Record<string, number>;
+  /** Upgrade respecs done so far. Only grows; `mergeSaves` reads it to keep a respec from being undone. */
+  respecs: number;
+  contracts: ContractSaveState;
+  settings: GameSettings;
+  purchases: PurchaseSaveState;
+  achievements: AchievementSaveState;
+  records: RunRecords;
+}
+
+export interface PurchaseSaveState {
+  /** Ids of `once` and `permanent` offers the player has. */
+  owned: string[];
+  /** Purchase tokens already granted, so a purchase that was not consumed yet is never granted twice. */
+  grantedTokens: string[];
+}
+
+export type DragMode = 'absolute' | 'relative';
+export type ToastLevel = 'all' | 'important' | 'none';
+
+export interface GameSettings {
+  /** 0..1, multiplied with the bus levels from `audio.json`. */
+  masterVolume: number;
+  musicVolume: number;
+  sfxVolume: number;
+  /** Keyboard steering, px/s. */
+  steeringSpeed: number;
+  /** `absolute` puts the boat under the finger, `relative` moves it by the drag distance. */
+  dragMode: DragMode;
+  /** Scales drag distance (relative) or the distance from the centre line (absolute). */
+  dragSensitivity: number;
+  /** Drops CSS transitions and flashing. */
+  reducedMotion: boolean;
+  /** Hit flash on collisions. */
+  screenEffects: boolean;
+  /** `important` keeps messages about purchases, contracts and errors but drops the flavour lines. */
+  toasts: ToastLevel;
+  /** Language picked in settings; unset means "follow the platform". */
+  language?: string;
 }
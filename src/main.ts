@@ -1,4 +1,5 @@
 import './style.css';
+import { ConfigValidationError } from './game/core/ConfigValidation';
 import { Game } from './game/core/Game';
 import { SaveService } from './game/services/SaveService';
 import { createPlatform } from './platform/Platform';
@@ -9,10 +10,32 @@ if (!root) {
   throw new Error('Missing #app root node');
 }
 
+function renderConfigErrors(target: HTMLElement, error: ConfigValidationError): void {
+  const card = document.createElement('div');
+  card.className = 'boot-error';
+  const title = document.createElement('h2');
+  title.textContent = 'Game data is invalid';
+  const list = document.createElement('ul');
+  for (const issue of error.issues) {
+    const item = document.createElement('li');
+    const where = document.createElement('code');
+    where.textContent = `${issue.file} ${issue.path}`;
+    item.append(where, ` — ${issue.reason}`);
+    list.append(item);
+  }
+  card.append(title, list);
+  target.replaceChildren(card);
+}
+
 void (async () => {
   const platform = await createPlatform();
   SaveService.setCloudAdapter(platform);
   await Game.boot(root, platform);
 })().catch((error: unknown) => {
+  if (error instanceof ConfigValidationError) {
+    console.error(error.message);
+    renderConfigErrors(root, error);
+    return;
+  }
   root.innerHTML = `<pre>Failed to start game: ${String(error)}</pre>`;
 });
@@ -1,6 +1,40 @@
 import type { SaveData } from '../game/types/config';
 import { YandexPlatform } from './YandexPlatform';
 
+export interface LeaderboardEntry {
+  rank: number;
+  score: number;
+  /** Display name; empty when the platform hides it. */
+  name: string;
+  isPlayer: boolean;
+}
+
+export interface LeaderboardQuery {
+  /** Entries from the first place down. */
+  top: number;
+  /** Entries above and below the player. */
+  around: number;
+}
+
+export interface LeaderboardSnapshot {
+  top: LeaderboardEntry[];
+  /** Null when the player has no score on the board yet. */
+  player: LeaderboardEntry | null;
+  /** Neighbours of the player outside `top`, ordered by rank. */
+  around: LeaderboardEntry[];
+}
+
+export interface CatalogProduct {
+  productId: string;
+  /** Price formatted for the player's currency by the platform, e.g. "49 ₽". */
+  price: string;
+}
+
+export interface PlatformPurchase {
+  productId: string;
+  purchaseToken: string;
+}
+
 export interface Platform {
   init(): Promise<void>;
   showInterstitial(): Promise<boolean>;
@@ -10,8 +44,59 @@ export interface Platform {
   onPause(cb: () => void): void;
   onResume(cb: () => void): void;
   gameReady(): void;
-  loadCloudSave(): Promise<SaveData | null>;
+  /** Raw cloud payload, or null when there is none; `SaveService.load` validates and migrates it. */
+  loadCloudSave(): Promise<unknown>;
   saveCloudSave(save: SaveData): Promise<boolean>;
+  /** Player's language as reported by the platform (BCP 47 or a bare code), or null when unknown. */
+  getLanguage(): string | null;
+  /**
+   * Reports the score of a finished run. Submitting again with the same `runKey` updates that run (the x2 reward
+   * boosts a score that was already sent).
+   */
+  submitScore(score: number, runKey: string): Promise<boolean>;
+  /** Rejects when the board cannot be read; callers show an error state. */
+  fetchLeaderboard(query: LeaderboardQuery): Promise<LeaderboardSnapshot>;
+  /** Products among `productIds` that the platform sells; rejects when payments are unavailable. */
+  getCatalog(productIds: string[]): Promise<CatalogProduct[]>;
+  /** Resolves with the purchase, or null when the player cancelled or the payment failed. */
+  purchase(productId: string): Promise<PlatformPurchase | null>;
+  /** Purchases not consumed yet: unfinished consumables and every permanent entitlement. */
+  getPurchases(): Promise<PlatformPurchase[]>;
+  consumePurchase(purchaseToken: string): Promise<boolean>;
+  /** Analytics goal with flat JSON params; fire and forget, never throws. */
+  trackEvent(name: string, params: Record<string, unknown>): void;
+}
+
+/** Unconsumed purchases made through the simulated payments of `NoopPlatform`. */
+export const NOOP_PURCHASES_STORAGE_KEY = 'charons_gamble_noop_purchases';
+
+/** Local stand-in for the platform board: this device's best runs. */
+export const LOCAL_LEADERBOARD_STORAGE_KEY = 'charons_gamble_leaderboard';
+const LOCAL_LEADERBOARD_SIZE = 20;
+
+interface LocalLeaderboardRun {
+  runKey: string;
+  score: number;
+  at: number;
+}
+
+interface LocalLeaderboard {
+  runs: LocalLeaderboardRun[];
+  /** Run shown as the player's own entry. */
+  lastRunKey: string | null;
+}
+
+/** Splits a ranked list into the snapshot shape; the player's neighbours already in `top` are not repeated. */
+export function sliceLeaderboard(
+  ranked: LeaderboardEntry[],
+  player: LeaderboardEntry | null,
+  query: LeaderboardQuery
+): LeaderboardSnapshot {
+  const top = ranked.slice(0, query.top);
+  const around = player && player.rank > query.top
+    ? ranked.filter((entry) => entry.rank > query.top && Math.abs(entry.rank - player.rank) <= query.around)
+    : [];
+  return { top, player, around };
 }
 
 
@@ -51,13 +136,118 @@ export class NoopPlatform implements Platform {
     // noop
   }
 
-  async loadCloudSave(): Promise<SaveData | null> {
+  trackEvent(): void {
+    // noop
+  }
+
+  async loadCloudSave(): Promise<unknown> {
     return null;
   }
 
   async saveCloudSave(): Promise<boolean> {
     return false;
   }
+
+  getLanguage(): string | null {
+    return typeof navigator !== 'undefined' ? navigator.language : null;
+  }
+
+  async submitScore(score: number, runKey: string): Promise<boolean> {
+    const board = this.readLeaderboard();
+    board.runs = board.runs.filter((run) => run.runKey !== runKey);
+    board.runs.push({ runKey, score, at: Date.now() });
+    board.runs.sort((a, b) => b.score - a.score || a.at - b.at);
+    board.lastRunKey = runKey;
+
+    const last = board.runs.find((run) => run.runKey === runKey);
+    // The last run is kept past the size limit so it can still be shown as the player's entry.
+    board.runs = board.runs.filter((run, index) => index < LOCAL_LEADERBOARD_SIZE || run === last);
+    try {
+      localStorage.setItem(LOCAL_LEADERBOARD_STORAGE_KEY, JSON.stringify(board));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchLeaderboard(query: LeaderboardQuery): Promise<LeaderboardSnapshot> {
+    const board = this.readLeaderboard();
+    const ranked = board.runs.map((run, index): LeaderboardEntry => ({
+      rank: index + 1,
+      score: run.score,
+      name: new Date(run.at).toLocaleDateString(),
+      isPlayer: run.runKey === board.lastRunKey
+    }));
+    return sliceLeaderboard(ranked, ranked.find((entry) => entry.isPlayer) ?? null, query);
+  }
+
+  /**
+   * Payments are simulated in dev builds only. A production build lands here when the SDK is missing or fails to
+   * start, and there the shop must say purchases are unavailable rather than hand out bundles for free.
+   */
+  async getCatalog(productIds: string[]): Promise<CatalogProduct[]> {
+    if (!import.meta.env.DEV) {
+      throw new Error('Payments are not available without the platform SDK');
+    }
+    return productIds.map((productId) => ({ productId, price: 'DEV' }));
+  }
+
+  /** Simulated checkout: a confirm dialog stands in for the payment window. */
+  async purchase(productId: string): Promise<PlatformPurchase | null> {
+    if (!import.meta.env.DEV) {
+      throw new Error('Payments are not available without the platform SDK');
+    }
+    if (typeof window === 'undefined' || !window.confirm(`[dev] Simulate buying "${productId}"?`)) {
+      return null;
+    }
+    const purchase: PlatformPurchase = {
+      productId,
+      purchaseToken: `noop-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    };
+    this.writePurchases([...(await this.getPurchases()), purchase]);
+    return purchase;
+  }
+
+  /** Nothing in production: otherwise an entry written into local storage would be granted as a restored purchase. */
+  async getPurchases(): Promise<PlatformPurchase[]> {
+    if (!import.meta.env.DEV) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(localStorage.getItem(NOOP_PURCHASES_STORAGE_KEY) ?? '[]') as unknown;
+      return Array.isArray(parsed)
+        ? parsed.filter((item): item is PlatformPurchase => typeof item?.productId === 'string' && typeof item?.purchaseToken === 'string')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async consumePurchase(purchaseToken: string): Promise<boolean> {
+    const purchases = await this.getPurchases();
+    return this.writePurchases(purchases.filter((item) => item.purchaseToken !== purchaseToken));
+  }
+
+  private writePurchases(purchases: PlatformPurchase[]): boolean {
+    try {
+      localStorage.setItem(NOOP_PURCHASES_STORAGE_KEY, JSON.stringify(purchases));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private readLeaderboard(): LocalLeaderboard {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(LOCAL_LEADERBOARD_STORAGE_KEY) ?? 'null') as Partial<LocalLeaderboard> | null;
+      const runs = Array.isArray(parsed?.runs)
+        ? parsed.runs.filter((run) => typeof run?.runKey === 'string' && Number.isFinite(run.score) && Number.isFinite(run.at))
+        : [];
+      return { runs, lastRunKey: typeof parsed?.lastRunKey === 'string' ? parsed.lastRunKey : null };
+    } catch {
+      return { runs: [], lastRunKey: null };
+    }
+  }
 }
 
 export async function createPlatform(): Promise<Platform> {
@@ -1,6 +1,16 @@
-import { SAVE_STORAGE_KEY } from '../game/services/SaveService';
 import type { SaveData } from '../game/types/config';
-import type { Platform } from './Platform';
+import {
+  sliceLeaderboard,
+  type CatalogProduct,
+  type LeaderboardEntry,
+  type LeaderboardQuery,
+  type LeaderboardSnapshot,
+  type Platform,
+  type PlatformPurchase
+} from './Platform';
+
+/** Technical name of the board in the Yandex Games console. */
+const LEADERBOARD_NAME = 'bestScore';
 
 type AdvEvents = {
   onOpen?: () => void;
@@ -23,6 +33,33 @@ interface YandexPlayerLike {
   setData: (data: Record<string, unknown>, flush?: boolean) => Promise<void>;
 }
 
+interface YandexLeaderboardEntry {
+  score: number;
+  rank: number;
+  player?: {
+    publicName?: string;
+    uniqueID?: string;
+  };
+}
+
+interface YandexLeaderboardEntries {
+  /** 0 when the player is not on the board. */
+  userRank: number;
+  entries: YandexLeaderboardEntry[];
+}
+
+interface YandexPurchase {
+  productID: string;
+  purchaseToken: string;
+}
+
+interface YandexPaymentsLike {
+  getCatalog: () => Promise<Array<{ id: string; price: string }>>;
+  purchase: (options: { id: string }) => Promise<YandexPurchase>;
+  getPurchases: () => Promise<YandexPurchase[]>;
+  consumePurchase: (purchaseToken: string) => Promise<void>;
+}
+
 interface YsdkLike {
   adv?: {
     showFullscreenAdv?: (events?: AdvEvents) => void;
@@ -36,8 +73,22 @@ interface YsdkLike {
       ready?: () => void;
     };
   };
+  environment?: {
+    i18n?: {
+      lang?: string;
+    };
+  };
+  leaderboards?: {
+    setScore?: (name: string, score: number) => Promise<void>;
+    getEntries?: (
+      name: string,
+      options?: { includeUser?: boolean; quantityAround?: number; quantityTop?: number }
+    ) => Promise<YandexLeaderboardEntries>;
+  };
+  isAvailableMethod?: (method: string) => Promise<boolean>;
   getStorage?: () => Promise<StorageLike>;
   getPlayer?: () => Promise<YandexPlayerLike>;
+  getPayments?: (options?: { signed?: boolean }) => Promise<YandexPaymentsLike>;
   on?: (eventName: string, cb: () => void) => void;
 }
 
@@ -47,12 +98,18 @@ declare global {
       init?: () => Promise<YsdkLike>;
     };
     ysdk?: YsdkLike;
+    /** Yandex Metrica tag, when the page includes its snippet. */
+    ym?: (counterId: number, method: string, ...args: unknown[]) => void;
   }
 }
 
+/** Metrica counter that receives game goals; unset leaves analytics off. */
+const METRICA_COUNTER_ID = Number(import.meta.env.VITE_METRICA_COUNTER_ID ?? 0);
+
 export class YandexPlatform implements Platform {
   private ysdk: YsdkLike | null = null;
   private player: YandexPlayerLike | null = null;
+  private payments: YandexPaymentsLike | null = null;
   private pauseCbs: Array<() => void> = [];
   private resumeCbs: Array<() => void> = [];
   private loadingReadySent = false;
@@ -79,14 +136,16 @@ export class YandexPlatform implements Platform {
 
     try {
       this.player = await this.ysdk.getPlayer?.() ?? null;
-      const cloudSave = await this.loadCloudSave();
-      if (cloudSave) {
-        localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(cloudSave));
-      }
     } catch {
       this.player = null;
     }
 
+    try {
+      this.payments = await this.ysdk.getPayments?.({ signed: false }) ?? null;
+    } catch {
+      this.payments = null;
+    }
+
     this.ysdk.on?.('game_api_pause', () => {
       this.pauseCbs.forEach((cb) => cb());
     });
@@ -218,29 +277,26 @@ export class YandexPlatform implements Platform {
     this.loadingReadySent = true;
   }
 
-  async loadCloudSave(): Promise<SaveData | null> {
+  /** The SDK has no analytics of its own; goals go to the Metrica counter linked to the game, if there is one. */
+  trackEvent(name: string, params: Record<string, unknown>): void {
+    if (!METRICA_COUNTER_ID || !window.ym) {
+      return;
+    }
+    try {
+      window.ym(METRICA_COUNTER_ID, 'reachGoal', name, params);
+    } catch (error) {
+      console.warn('Metrica goal failed', error);
+    }
+  }
+
+  async loadCloudSave(): Promise<unknown> {
     if (!this.player) {
       return null;
     }
 
     try {
       const data = await this.player.getData(['save_v1']);
-      const raw = data.save_v1;
-      if (!raw) {
-        return null;
-      }
-      if (typeof raw === 'string') {
-        try {
-          const parsed = JSON.parse(raw) as unknown;
-          return typeof parsed === 'object' && parsed !== null ? (parsed as SaveData) : null;
-        } catch {
-          return null;
-        }
-      }
-      if (typeof raw === 'object') {
-        return raw as SaveData;
-      }
-      return null;
+      return data.save_v1 ?? null;
     } catch {
       return null;
     }
@@ -258,4 +314,95 @@ export class YandexPlatform implements Platform {
       return false;
     }
   }
+
+  getLanguage(): string | null {
+    return this.ysdk?.environment?.i18n?.lang ?? null;
+  }
+
+  /** The board keeps each player's best, so `runKey` is not needed here. Guests cannot submit. */
+  async submitScore(score: number): Promise<boolean> {
+    const leaderboards = this.ysdk?.leaderboards;
+    if (!leaderboards?.setScore) {
+      return false;
+    }
+
+    try {
+      if (this.ysdk?.isAvailableMethod && !(await this.ysdk.isAvailableMethod('leaderboards.setScore'))) {
+        return false;
+      }
+      await leaderboards.setScore(LEADERBOARD_NAME, score);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async fetchLeaderboard(query: LeaderboardQuery): Promise<LeaderboardSnapshot> {
+    const leaderboards = this.ysdk?.leaderboards;
+    if (!leaderboards?.getEntries) {
+      throw new Error('Leaderboards API is not available');
+    }
+
+    const result = await leaderboards.getEntries(LEADERBOARD_NAME, {
+      includeUser: true,
+      quantityTop: query.top,
+      quantityAround: query.around
+    });
+    const ranked = result.entries
+      .map((entry): LeaderboardEntry => ({
+        rank: entry.rank,
+        score: entry.score,
+        name: entry.player?.publicName ?? '',
+        isPlayer: result.userRank > 0 && entry.rank === result.userRank
+      }))
+      .sort((a, b) => a.rank - b.rank);
+    return sliceLeaderboard(ranked, ranked.find((entry) => entry.isPlayer) ?? null, query);
+  }
+
+  async getCatalog(productIds: string[]): Promise<CatalogProduct[]> {
+    if (!this.payments) {
+      throw new Error('Payments API is not available');
+    }
+    const catalog = await this.payments.getCatalog();
+    return catalog
+      .filter((product) => productIds.includes(product.id))
+      .map((product) => ({ productId: product.id, price: product.price }));
+  }
+
+  async purchase(productId: string): Promise<PlatformPurchase | null> {
+    if (!this.payments) {
+      return null;
+    }
+    try {
+      const purchase = await this.payments.purchase({ id: productId });
+      return { productId: purchase.productID, purchaseToken: purchase.purchaseToken };
+    } catch {
+      // Closing the payment window rejects as well; either way nothing was bought.
+      return null;
+    }
+  }
+
+  async getPurchases(): Promise<PlatformPurchase[]> {
+    if (!this.payments) {
+      return [];
+    }
+    try {
+      const purchases = await this.payments.getPurchases();
+      return purchases.map((purchase) => ({ productId: purchase.productID, purchaseToken: purchase.purchaseToken }));
+    } catch {
+      return [];
+    }
+  }
+
+  async consumePurchase(purchaseToken: string): Promise<boolean> {
+    if (!this.payments) {
+      return false;
+    }
+    try {
+      await this.payments.consumePurchase(purchaseToken);
+      return true;
+    } catch {
+      return false;
+    }
+  }
 }